@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTodoStore, toErrorResponse } from '@/lib/server/todoStore';
+import { verifyFeedToken } from '@/lib/server/calendarFeed';
+import { toICalendar } from '@/services/ical';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// The token owner's todos with a due date as an iCalendar feed, VEVENTs by
+// default or VTODOs with ?type=todo. Calendar apps poll this URL, so it takes
+// no auth header; the store is read without credentials.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = (await params).token.replace(/\.ics$/, '');
+    const userId = verifyFeedToken(token);
+    if (!userId) {
+      return NextResponse.json({ message: 'Unknown calendar feed' }, { status: 404 });
+    }
+
+    const { todos } = await getTodoStore().list({ page: 1, pageSize: 0, sortBy: 'due_asc' });
+    const owned = todos.filter((todo) => String(todo.userId) === userId);
+
+    const body = toICalendar(owned, {
+      name: 'Todos',
+      component: request.nextUrl.searchParams.get('type') === 'todo' ? 'VTODO' : 'VEVENT',
+      domain: request.nextUrl.hostname,
+    });
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/todoStore';
+import { createFeedToken, currentUserId } from '@/lib/server/calendarFeed';
+
+export const dynamic = 'force-dynamic';
+
+// Issue the signed-in user's calendar subscription token
+export async function POST(request: NextRequest) {
+  try {
+    const token = createFeedToken(await currentUserId(request.headers.get('authorization')));
+    return NextResponse.json({ token, path: `/api/calendar/${token}.ics` });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTodoStore, toErrorResponse } from '@/lib/server/todoStore';
+import { todoChangesSchema } from '@/services/schemas';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const parseId = async ({ params }: RouteContext): Promise<number | null> => {
+  const id = Number((await params).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const invalidId = () => NextResponse.json({ message: 'Invalid todo id' }, { status: 400 });
+
+// Fetch a single todo
+export async function GET(request: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    return NextResponse.json(await getTodoStore(request.headers.get('authorization')).get(id));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Update a todo with the given changes
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  const body = todoChangesSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ message: 'Invalid todo changes', issues: body.error.issues }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getTodoStore(request.headers.get('authorization')).update(id, body.data));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Delete a todo, responding with the deleted record
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const id = await parseId(context);
+  if (!id) return invalidId();
+
+  try {
+    return NextResponse.json(await getTodoStore(request.headers.get('authorization')).remove(id));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
\ No newline at end of file
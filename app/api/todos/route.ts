@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTodoStore, toErrorResponse } from '@/lib/server/todoStore';
+import { newTodoSchema } from '@/services/schemas';
+import { fromSearchParams } from '@/services/todoQuery';
+
+export const dynamic = 'force-dynamic';
+
+// List todos as a { todos, total, skip, limit } envelope
+export async function GET(request: NextRequest) {
+  try {
+    const params = fromSearchParams(request.nextUrl.searchParams);
+    const page = await getTodoStore(request.headers.get('authorization')).list(params);
+
+    return NextResponse.json({
+      todos: page.todos,
+      total: page.total,
+      skip: (page.page - 1) * page.pageSize,
+      limit: page.pageSize,
+    });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Create a todo
+export async function POST(request: NextRequest) {
+  const body = newTodoSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ message: 'Invalid todo', issues: body.error.issues }, { status: 400 });
+  }
+
+  try {
+    const todo = await getTodoStore(request.headers.get('authorization')).create(body.data);
+    return NextResponse.json(todo, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { BoardView } from '@/components/todos/BoardView';
+
+export default function BoardPage() {
+  return (
+    <ProtectedRoute>
+      <BoardView />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
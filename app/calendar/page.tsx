@@ -0,0 +1,12 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { CalendarView } from '@/components/todos/CalendarView';
+
+export default function CalendarPage() {
+  return (
+    <ProtectedRoute>
+      <CalendarView />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
@@ -6,6 +6,10 @@ import { usePathname } from 'next/navigation';
 import { useState } from 'react';
 import { Providers } from './providers';
 import { Button } from '@/components/ui/button';
+import { BackendStatusIndicator } from '@/components/BackendStatusIndicator';
+import { SyncFailures } from '@/components/SyncFailures';
+import { ListSidebar } from '@/components/lists/ListSidebar';
+import { SavedViewsNav } from '@/components/views/SavedViewsNav';
 import { useOffline } from '@/contexts/OfflineContext';
 import { useRealtime } from '@/contexts/RealtimeContext';
 import { useAI } from '@/contexts/AIContext';
@@ -40,6 +44,8 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
   const { user, isAuthenticated, logout } = useAuth();
 
   const isActive = (path: string) => pathname === path;
+  const showLists =
+    isAuthenticated && (pathname === '/' || pathname.startsWith('/lists/') || pathname === '/trash');
 
   if (pathname === '/auth') {
     return <>{children}</>;
@@ -47,6 +53,8 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
 
   const navigationItems = [
     { path: '/', label: 'Todos', icon: '📝' },
+    { path: '/board', label: 'Board', icon: '🗂️' },
+    { path: '/calendar', label: 'Calendar', icon: '📅' },
     { path: '/ai-chat', label: 'AI Chat', icon: '🤖', premium: true },
     { path: '/collaborate', label: 'Collaborate', icon: '👥', premium: true },
     { path: '/features', label: 'Features', icon: '🚀' },
@@ -95,6 +103,8 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
                 </div>
               )}
 
+              {!isOffline && <BackendStatusIndicator />}
+
               {todoUpdates.length > 0 && (
                 <div className="flex items-center gap-2 text-blue-300">
                   <svg
@@ -230,14 +240,13 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
                         <p className="text-xs text-gray-600">{user?.email}</p>
                       </div>
                       <div className="py-2">
-                        <button
-                          onClick={() => {
-                            setShowUserMenu(false);
-                          }}
-                          className="w-full text-left px-4 py-2 text-sm text-pink-950 hover:bg-pink-50 transition-colors"
+                        <Link
+                          href="/settings"
+                          onClick={() => setShowUserMenu(false)}
+                          className="block w-full text-left px-4 py-2 text-sm text-pink-950 hover:bg-pink-50 transition-colors"
                         >
                           ⚙️ Settings
-                        </button>
+                        </Link>
                         <button
                           onClick={() => {
                             logout();
@@ -296,7 +305,15 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
       </header>
 
       <main className="flex-1">
-        <div className="max-w-7xl mx-auto">{children}</div>
+        <div className="max-w-7xl mx-auto lg:flex">
+          {showLists && (
+            <div className="lg:w-60 lg:shrink-0">
+              <SavedViewsNav />
+              <ListSidebar />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">{children}</div>
+        </div>
       </main>
 
       {isAIEnabled && isAuthenticated && pathname !== '/ai-chat' && (
@@ -342,6 +359,8 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
           </div>
         </div>
       )}
+
+      {isAuthenticated && <SyncFailures />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { TodoListView } from '@/components/todos/TodoListView';
+
+export default function ListPage() {
+  const params = useParams();
+  const listId = String(params.listId);
+
+  // Keyed by list so filters and paging start fresh when switching lists
+  return (
+    <ProtectedRoute>
+      <TodoListView key={listId} listId={listId} />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
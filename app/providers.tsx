@@ -7,7 +7,11 @@ import { AuthProvider } from '@/contexts/AuthContext';
 import { RealtimeProvider } from '@/contexts/RealtimeContext';
 import { OfflineProvider } from '@/contexts/OfflineContext';
 import { AIProvider } from '@/contexts/AIContext';
+import { ReminderProvider } from '@/contexts/ReminderContext';
+import { UndoProvider } from '@/contexts/UndoContext';
+import { UndoToast } from '@/components/UndoToast';
 import { ErrorBoundary } from '@/features/errors/ErrorBoundary';
+import { ApiValidationError } from '@/services/schemas';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -15,6 +19,9 @@ const queryClient = new QueryClient({
       staleTime: 1000 * 60 * 5,
       gcTime: 1000 * 60 * 30,
       retry: (failureCount, error: any) => {
+        if (error instanceof ApiValidationError) {
+          return false;
+        }
         if (error?.status >= 400 && error?.status < 500) {
           return false;
         }
@@ -70,10 +77,15 @@ export function Providers({ children }: { children: React.ReactNode }) {
           <OfflineProvider>
             <RealtimeProvider>
               <AIProvider>
-                {children}
-                {process.env.NODE_ENV === 'development' && (
-                  <ReactQueryDevtools initialIsOpen={false} position="bottom" />
-                )}
+                <UndoProvider>
+                  <ReminderProvider>
+                    {children}
+                    <UndoToast />
+                    {process.env.NODE_ENV === 'development' && (
+                      <ReactQueryDevtools initialIsOpen={false} position="bottom" />
+                    )}
+                  </ReminderProvider>
+                </UndoProvider>
               </AIProvider>
             </RealtimeProvider>
           </OfflineProvider>
@@ -0,0 +1,17 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { CalendarFeedSettings } from '@/components/settings/CalendarFeedSettings';
+
+export default function SettingsPage() {
+  return (
+    <ProtectedRoute>
+      <main className="relative z-10 p-4 min-h-screen pb-32 bg-pink-950 text-white">
+        <div className="max-w-3xl mx-auto px-2 space-y-6">
+          <h1 className="text-2xl font-bold">⚙️ Settings</h1>
+          <CalendarFeedSettings />
+        </div>
+      </main>
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
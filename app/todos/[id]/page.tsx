@@ -1,32 +1,31 @@
 'use client';
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
-
-const BASE = 'https://api.oluwasetemi.dev/todos';
-const FALLBACK_BASE = 'https://dummyjson.com/todos';
-
-interface Todo {
-  id: number;
-  todo: string;
-  completed: boolean;
-  userId: number;
-  createdAt?: string;
-  updatedAt?: string;
-}
+import { TodoFieldsEditor, TodoDraft, toDraft, draftToChanges, PRIORITY_LABELS } from '@/components/todos/TodoFieldsEditor';
+import { TodoBadges } from '@/components/todos/TodoBadges';
+import { Markdown } from '@/components/todos/Markdown';
+import { SubtaskList } from '@/components/todos/SubtaskList';
+import { RecurrencePanel } from '@/components/todos/RecurrencePanel';
+import { TodoActivity } from '@/components/todos/TodoActivity';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { todoService, Todo } from '@/services/todoService';
+import { trashService } from '@/services/trashService';
+import { toICalendar } from '@/services/ical';
+import { downloadFile } from '@/lib/utils';
+import { ApiValidationError } from '@/services/schemas';
 
 function TodoDetailContent() {
   const params = useParams();
   const router = useRouter();
-  const queryClient = useQueryClient();
   const todoId = Number(params.id);
 
   const [isEditing, setIsEditing] = useState(false);
-  const [editTitle, setEditTitle] = useState('');
+  const [editDraft, setEditDraft] = useState<TodoDraft>(toDraft());
 
   const {
     data: todo,
@@ -35,84 +34,50 @@ function TodoDetailContent() {
     error,
   } = useQuery<Todo>({
     queryKey: ['todo', todoId],
-    queryFn: async (): Promise<Todo> => {
-      try {
-        const res = await fetch(`${BASE}/${todoId}`);
-        if (!res.ok) throw new Error('Failed to fetch todo');
-        return res.json();
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${todoId}`);
-        if (!res.ok) throw new Error('Failed to fetch todo');
-        return res.json();
-      }
-    },
+    queryFn: (): Promise<Todo> => todoService.get(todoId),
   });
 
-  const updateTodo = useMutation({
-    mutationFn: async (updatedTodo: Partial<Todo>): Promise<Todo> => {
-      try {
-        const res = await fetch(`${BASE}/${todoId}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updatedTodo),
-        });
-        if (!res.ok) throw new Error('Failed to update todo');
-        return res.json();
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${todoId}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updatedTodo),
-        });
-        if (!res.ok) throw new Error('Failed to update todo');
-        return res.json();
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['todo', todoId] });
-      queryClient.invalidateQueries({ queryKey: ['todos'] });
-      setIsEditing(false);
-    },
+  const { data: trashedHere = new Map<number, string>() } = useQuery({
+    queryKey: ['todos', 'trashedHere'],
+    queryFn: () => trashService.trashedHere(),
   });
 
-  const deleteTodo = useMutation({
-    mutationFn: async (): Promise<void> => {
-      try {
-        const res = await fetch(`${BASE}/${todoId}`, { method: 'DELETE' });
-        if (!res.ok) throw new Error('Failed to delete todo');
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${todoId}`, { method: 'DELETE' });
-        if (!res.ok) throw new Error('Failed to delete todo');
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['todos'] });
-      router.push('/');
-    },
-  });
+  const { updateTodo, toggleCompleted, deleteTodo, restoreTodo, purgeTodo, mutationError, clearMutationError } = useTodoMutations();
 
   const handleEdit = () => {
     if (todo) {
-      setEditTitle(todo.todo);
+      setEditDraft(toDraft(todo));
       setIsEditing(true);
     }
   };
 
+  // One-off .ics file for adding the todo to a calendar app
+  const handleDownloadIcs = () => {
+    if (!todo) return;
+    const ics = toICalendar([todo], { name: todo.todo, component: 'VEVENT', domain: window.location.hostname });
+    downloadFile(ics, `todo-${todo.id}.ics`, 'text/calendar');
+  };
+
   const handleSave = () => {
-    if (editTitle.trim()) {
-      updateTodo.mutate({ todo: editTitle });
+    if (editDraft.todo.trim()) {
+      updateTodo.mutate({ id: todoId, changes: draftToChanges(editDraft) });
+      setIsEditing(false);
     }
   };
 
   const handleToggleComplete = () => {
     if (todo) {
-      updateTodo.mutate({ completed: !todo.completed });
+      toggleCompleted.mutate({ id: todoId, changes: { completed: !todo.completed } });
     }
   };
 
   const handleDelete = () => {
-    if (confirm('Are you sure you want to delete this todo?')) {
-      deleteTodo.mutate();
+    if (todo?.deletedAt) {
+      if (confirm('Delete this todo for good? This cannot be undone.')) {
+        purgeTodo.mutate(todoId, { onSuccess: () => router.push('/trash') });
+      }
+    } else if (confirm('Move this todo to the trash?')) {
+      deleteTodo.mutate(todoId, { onSuccess: () => router.push('/') });
     }
   };
 
@@ -132,7 +97,9 @@ function TodoDetailContent() {
       <div className="min-h-screen bg-pink-950 text-white flex items-center justify-center">
         <div className="text-center">
           <p className="text-red-400 mb-4">
-            Error loading todo: {(error as any)?.message || 'Todo not found'}
+            {error instanceof ApiValidationError
+              ? 'The server returned this todo in an unexpected format.'
+              : `Error loading todo: ${(error as any)?.message || 'Todo not found'}`}
           </p>
           <Link href="/">
             <Button variant="outline" size="default" className="bg-white text-pink-950">
@@ -153,6 +120,37 @@ function TodoDetailContent() {
           </Link>
         </div>
 
+        {mutationError && (
+          <div
+            role="alert"
+            className="mb-4 px-4 py-3 rounded-lg bg-red-100 border border-red-300 text-red-800 flex items-start justify-between gap-3"
+          >
+            <span className="text-sm">⚠️ {mutationError}</span>
+            <button onClick={clearMutationError} className="text-red-600 hover:text-red-800 text-sm" aria-label="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {todo.deletedAt && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-amber-100 border border-amber-300 text-amber-900 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-sm">
+              🗑️ This todo is in the trash
+              {trashService.isPurgedHere(todo, trashedHere)
+                ? ` and will be deleted for good on ${trashService.purgeAt(todo)?.toLocaleDateString()}.`
+                : '.'}
+            </span>
+            <Button
+              onClick={() => restoreTodo.mutate(todoId)}
+              disabled={restoreTodo.isPending}
+              size="sm"
+              className="bg-pink-600 hover:bg-pink-700 text-white"
+            >
+              {restoreTodo.isPending ? 'Restoring...' : '♻️ Restore'}
+            </Button>
+          </div>
+        )}
+
         <div className="bg-white text-gray-900 rounded-2xl shadow-xl p-8">
           <div className="flex items-start justify-between mb-6">
             <div className="flex-1">
@@ -173,16 +171,7 @@ function TodoDetailContent() {
 
           {isEditing ? (
             <div className="mb-6">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Todo Title
-              </label>
-              <input
-                type="text"
-                value={editTitle}
-                onChange={(e) => setEditTitle(e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
-                autoFocus
-              />
+              <TodoFieldsEditor draft={editDraft} onChange={setEditDraft} autoFocus />
               <div className="flex gap-2 mt-4">
                 <Button
                   onClick={handleSave}
@@ -202,10 +191,38 @@ function TodoDetailContent() {
             </div>
           ) : (
             <div className="mb-6">
-              <h1 className="text-3xl font-bold text-gray-900 mb-4">{todo.todo}</h1>
+              <div className="flex items-start gap-3 mb-4">
+                <h1 className="text-3xl font-bold text-gray-900 flex-1 min-w-0 break-words">{todo.todo}</h1>
+                <button
+                  onClick={() => updateTodo.mutate({ id: todoId, changes: { starred: !todo.starred } })}
+                  className={`text-2xl leading-none ${todo.starred ? '' : 'opacity-30 hover:opacity-70'}`}
+                  aria-label={todo.starred ? 'Unstar' : 'Star'}
+                  aria-pressed={!!todo.starred}
+                >
+                  ⭐
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <TodoBadges todo={todo} />
+              </div>
+              {todo.description ? (
+                <Markdown source={todo.description} className="text-gray-800" />
+              ) : (
+                <p className="text-gray-500 italic">No description</p>
+              )}
             </div>
           )}
 
+          {todo.recurrence && (
+            <div className="border-t border-gray-200 pt-6 mb-6">
+              <RecurrencePanel todo={todo} onChange={(changes) => updateTodo.mutate({ id: todoId, changes })} />
+            </div>
+          )}
+
+          <div className="border-t border-gray-200 pt-6 mb-6">
+            <SubtaskList todo={todo} onChange={(changes) => updateTodo.mutate({ id: todoId, changes })} />
+          </div>
+
           <div className="border-t border-gray-200 pt-6">
             <h2 className="text-lg font-semibold mb-4">Details</h2>
             <div className="space-y-3 text-sm">
@@ -215,6 +232,22 @@ function TodoDetailContent() {
                   {todo.completed ? 'Completed' : 'Incomplete'}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Priority:</span>
+                <span className="font-medium">{PRIORITY_LABELS[todo.priority ?? 'normal']}</span>
+              </div>
+              {todo.dueAt && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Due:</span>
+                  <span className="font-medium">{new Date(todo.dueAt).toLocaleString()}</span>
+                </div>
+              )}
+              {todo.tags && todo.tags.length > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tags:</span>
+                  <span className="font-medium">{todo.tags.join(', ')}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-600">User ID:</span>
                 <span className="font-medium">{todo.userId}</span>
@@ -243,10 +276,10 @@ function TodoDetailContent() {
             <div className="flex flex-wrap gap-3">
               <Button
                 onClick={handleToggleComplete}
-                disabled={updateTodo.isPending}
+                disabled={updateTodo.isPending || toggleCompleted.isPending}
                 className="bg-green-600 hover:bg-green-700 text-white"
               >
-                {updateTodo.isPending
+                {toggleCompleted.isPending
                   ? 'Updating...'
                   : todo.completed
                   ? 'Mark as Incomplete'
@@ -259,16 +292,35 @@ function TodoDetailContent() {
               >
                 Edit Todo
               </Button>
+              {todo.dueAt && (
+                <Button
+                  onClick={handleDownloadIcs}
+                  variant="outline"
+                  className="border-pink-600 text-pink-600 hover:bg-pink-50"
+                >
+                  📅 Add to Calendar (.ics)
+                </Button>
+              )}
               <Button
                 onClick={handleDelete}
-                disabled={deleteTodo.isPending}
+                disabled={deleteTodo.isPending || purgeTodo.isPending}
                 variant="destructive"
                 className="bg-red-600 hover:bg-red-700 text-white"
               >
-                {deleteTodo.isPending ? 'Deleting...' : 'Delete Todo'}
+                {todo.deletedAt
+                  ? purgeTodo.isPending
+                    ? 'Deleting...'
+                    : 'Delete Forever'
+                  : deleteTodo.isPending
+                  ? 'Moving...'
+                  : 'Move to Trash'}
               </Button>
             </div>
           </div>
+
+          <div className="border-t border-gray-200 pt-6 mt-6">
+            <TodoActivity todoId={todoId} />
+          </div>
         </div>
       </div>
     </div>
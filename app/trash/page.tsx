@@ -0,0 +1,12 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { TrashView } from '@/components/todos/TrashView';
+
+export default function TrashPage() {
+  return (
+    <ProtectedRoute>
+      <TrashView />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
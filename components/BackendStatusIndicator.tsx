@@ -0,0 +1,48 @@
+'use client';
+
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { todoService } from '@/services/todoService';
+
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+
+const subscribe = (listener: () => void) => todoService.subscribe(listener);
+const getStatus = () => todoService.getStatus();
+
+// Shows which backend is serving todos and whether changes reach other devices.
+// Changes made while a read-only backend serves go to the local store.
+export const BackendStatusIndicator: React.FC = () => {
+  const { active, backends } = useSyncExternalStore(subscribe, getStatus, getStatus);
+
+  useEffect(() => {
+    const check = () => {
+      if (navigator.onLine) todoService.checkHealth().catch((error) => console.error('Health check failed:', error));
+    };
+
+    check();
+    const interval = setInterval(check, HEALTH_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const title = backends
+    .map((backend) => `${backend.label}: ${backend.state === 'closed' ? 'up' : backend.state}`)
+    .join('\n');
+
+  if (active.persistent) {
+    return (
+      <div className="flex items-center gap-2 text-pink-200" title={title}>
+        <span className="text-xs">🗄️ {active.label}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-amber-300" title={title}>
+      <span className="text-xs">
+        {active.id === 'local' ? '💾' : '⚠️'} {active.label}
+      </span>
+      <span className="bg-amber-300 text-pink-950 px-2 py-1 rounded text-xs">
+        Changes stay on this device
+      </span>
+    </div>
+  );
+};
\ No newline at end of file
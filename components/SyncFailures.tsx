@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useOffline } from '@/contexts/OfflineContext';
+import { SyncQueueItem } from '@/services/db';
+
+const ACTION_LABELS: Record<SyncQueueItem['action'], string> = {
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Delete',
+  batch: 'Change',
+};
+
+const describeItem = (item: SyncQueueItem): string =>
+  item.action === 'batch'
+    ? `${ACTION_LABELS.batch} of ${item.data.operations.length} todos`
+    : `${ACTION_LABELS[item.action]} ${item.data?.todo ? `"${item.data.todo}"` : `todo ${item.data?.id}`}`;
+
+// Offline changes the backend rejected, e.g. edits of a todo deleted on
+// another device. Discarding one drops the change and its local copy.
+export const SyncFailures: React.FC = () => {
+  const { failedSync, discardFailedSync } = useOffline();
+  const [discarding, setDiscarding] = useState<number | null>(null);
+
+  if (failedSync.length === 0) return null;
+
+  const discard = async (item: SyncQueueItem) => {
+    setDiscarding(item.id!);
+    try {
+      await discardFailedSync(item);
+    } catch (error) {
+      console.error('Error discarding a failed change:', error);
+    } finally {
+      setDiscarding(null);
+    }
+  };
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-32 right-6 z-40 w-80 max-w-[calc(100vw-3rem)] bg-white text-gray-900 rounded-lg shadow-xl border border-red-300 p-4"
+    >
+      <p className="font-semibold text-red-800 text-sm">
+        {failedSync.length === 1 ? '1 change' : `${failedSync.length} changes`} could not be synced
+      </p>
+      <ul className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+        {failedSync.map((item) => (
+          <li key={item.id} className="flex items-start justify-between gap-2 text-xs">
+            <div className="min-w-0">
+              <p className="break-words">{describeItem(item)}</p>
+              {item.lastError && <p className="text-gray-600 break-words">{item.lastError}</p>}
+            </div>
+            <button
+              onClick={() => discard(item)}
+              disabled={discarding === item.id}
+              className="shrink-0 px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useUndo } from '@/contexts/UndoContext';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { HistoryEntry, HistoryOperation, toNewTodo } from '@/services/history';
+
+const TOAST_DURATION = 6000;
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Undo/redo toast for the latest todo change, plus the Ctrl+Z / Ctrl+Shift+Z
+// shortcuts. Inverse operations go through the regular mutations, so they
+// reach the API or the offline queue like any other change.
+export const UndoToast: React.FC = () => {
+  const { canUndo, canRedo, lastChange, replay, resolveId, remapId, dismissChange } = useUndo();
+  const { createTodo, updateTodo, purgeTodo, mutationError, clearMutationError } = useTodoMutations();
+
+  const run = async (operation: HistoryOperation, direction: 'undo' | 'redo') => {
+    if (operation.type === 'update') {
+      const changes = direction === 'undo' ? operation.before : operation.after;
+      await updateTodo.mutateAsync({ id: resolveId(operation.id), changes, exact: true });
+    } else if (direction === 'redo') {
+      const created = await createTodo.mutateAsync(toNewTodo(operation.todo));
+      remapId(operation.todo.id, created.id);
+    } else {
+      // Undoing an add takes the todo back out rather than leaving it in the trash
+      await purgeTodo.mutateAsync(resolveId(operation.todo.id));
+    }
+  };
+
+  // Undo walks a batch backwards so each step sees the state it left behind
+  const execute = (direction: 'undo' | 'redo') => async (entry: HistoryEntry) => {
+    const operations = direction === 'undo' ? [...entry.operations].reverse() : entry.operations;
+    for (const operation of operations) {
+      await run(operation, direction);
+    }
+  };
+
+  const undo = () => replay('undo', execute('undo')).catch((error) => console.error('Undo failed:', error));
+  const redo = () => replay('redo', execute('redo')).catch((error) => console.error('Redo failed:', error));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    if (!lastChange) return;
+    const timeout = setTimeout(dismissChange, TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [lastChange, dismissChange]);
+
+  if (!lastChange && !mutationError) return null;
+
+  const prefix = lastChange?.kind === 'undone' ? 'Undid: ' : lastChange?.kind === 'redone' ? 'Redid: ' : '';
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 max-w-[calc(100vw-2rem)] flex items-center gap-3 bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-xl"
+    >
+      {mutationError ? (
+        <span className="text-red-300">{mutationError}</span>
+      ) : (
+        <span className="truncate">
+          {prefix}
+          {lastChange?.entry.label}
+        </span>
+      )}
+      {canUndo && (
+        <button onClick={undo} className="font-semibold text-pink-300 hover:text-pink-200" title="Undo (Ctrl+Z)">
+          Undo
+        </button>
+      )}
+      {canRedo && (
+        <button onClick={redo} className="font-semibold text-pink-300 hover:text-pink-200" title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </button>
+      )}
+      <button
+        onClick={() => {
+          dismissChange();
+          clearMutationError();
+        }}
+        className="text-gray-400 hover:text-white"
+        aria-label="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
\ No newline at end of file
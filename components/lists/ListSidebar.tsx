@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useLists } from '@/hooks/useLists';
+import { useTrashPurge } from '@/hooks/useTrashPurge';
+import { INBOX_LIST_ID } from '@/services/todoQuery';
+import { TodoListRecord } from '@/services/db';
+
+const Count: React.FC<{ value?: number }> = ({ value }) =>
+  value ? <span className="text-xs opacity-75">{value}</span> : null;
+
+// Navigation between all todos, the inbox, the named lists and the trash. A
+// row of chips on small screens and a sidebar from lg up. Expired trash is
+// purged while it is shown.
+export const ListSidebar: React.FC = () => {
+  const pathname = usePathname();
+  const { lists, openCounts, createList, renameList, deleteList } = useLists();
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  useTrashPurge();
+
+  const totalOpen = Object.values(openCounts).reduce((sum, count) => sum + count, 0);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createList.mutate(newName);
+    setNewName('');
+  };
+
+  const startRename = (list: TodoListRecord) => {
+    setRenamingId(list.id);
+    setRenameValue(list.name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId && renameValue.trim()) renameList.mutate({ id: renamingId, name: renameValue });
+    setRenamingId(null);
+  };
+
+  const handleDelete = (list: TodoListRecord) => {
+    if (!window.confirm(`Delete "${list.name}"? Its todos move to the inbox.`)) return;
+    deleteList.mutate(list.id);
+  };
+
+  const linkClassName = (href: string) =>
+    `flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors ${
+      pathname === href ? 'bg-pink-200 text-pink-950' : 'text-pink-100 hover:bg-pink-900'
+    }`;
+
+  return (
+    <aside className="px-4 pt-4 lg:pr-0" aria-label="Lists">
+      <nav className="flex gap-2 overflow-x-auto lg:flex-col lg:overflow-visible">
+        <Link href="/" className={linkClassName('/')}>
+          <span>📋 All todos</span>
+          <Count value={totalOpen} />
+        </Link>
+        <Link href={`/lists/${INBOX_LIST_ID}`} className={linkClassName(`/lists/${INBOX_LIST_ID}`)}>
+          <span>📥 Inbox</span>
+          <Count value={openCounts[INBOX_LIST_ID]} />
+        </Link>
+
+        {lists.map((list) =>
+          renamingId === list.id ? (
+            <form key={list.id} onSubmit={handleRename} className="flex">
+              <input
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={handleRename}
+                className="w-full px-3 py-2 rounded-lg text-sm text-gray-900"
+                aria-label={`Rename ${list.name}`}
+                autoFocus
+              />
+            </form>
+          ) : (
+            <div key={list.id} className="group flex items-center gap-1">
+              <Link href={`/lists/${list.id}`} className={`flex-1 min-w-0 ${linkClassName(`/lists/${list.id}`)}`}>
+                <span className="truncate">📂 {list.name}</span>
+                <Count value={openCounts[list.id]} />
+              </Link>
+              <button
+                onClick={() => startRename(list)}
+                className="px-1 lg:opacity-0 lg:group-hover:opacity-100 focus:opacity-100 text-pink-300 hover:text-white text-xs"
+                aria-label={`Rename ${list.name}`}
+              >
+                ✏️
+              </button>
+              <button
+                onClick={() => handleDelete(list)}
+                className="px-1 lg:opacity-0 lg:group-hover:opacity-100 focus:opacity-100 text-pink-300 hover:text-white text-xs"
+                aria-label={`Delete ${list.name}`}
+              >
+                🗑️
+              </button>
+            </div>
+          )
+        )}
+
+        <Link href="/trash" className={linkClassName('/trash')}>
+          <span>🗑️ Trash</span>
+        </Link>
+      </nav>
+
+      <form onSubmit={handleCreate} className="mt-3 flex">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="+ New list"
+          className="w-full px-3 py-2 rounded-lg text-sm bg-pink-900/60 text-white placeholder:text-pink-300 focus:outline-none focus:ring-2 focus:ring-pink-400"
+        />
+      </form>
+    </aside>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { calendarFeedService } from '@/services/calendarFeedService';
+import type { ICalComponent } from '@/services/ical';
+
+// Subscription URL that calendar apps poll for todos with a due date
+export const CalendarFeedSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [component, setComponent] = useState<ICalComponent>('VEVENT');
+  const [copied, setCopied] = useState(false);
+
+  const { data: feedUrl, isLoading, isError, error, refetch } = useQuery({
+    queryKey: ['calendarFeed', user?.id, component],
+    queryFn: () => calendarFeedService.getFeedUrl(component),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <section className="bg-white text-gray-800 rounded-xl shadow-md p-6" aria-labelledby="calendar-feed-heading">
+      <h2 id="calendar-feed-heading" className="text-lg font-semibold text-pink-950 mb-2">
+        📅 Calendar subscription
+      </h2>
+      <p className="text-sm text-gray-700 mb-4">
+        Subscribe to this URL in Google Calendar, Apple Calendar or Outlook to see todos with a due date there. Calendar
+        apps refresh it every few hours. Anyone with the link can see your todos, so keep it private.
+      </p>
+
+      <label className="block text-sm font-medium mb-3">
+        Show todos as
+        <select
+          value={component}
+          onChange={(e) => setComponent(e.target.value as ICalComponent)}
+          className="mt-1 block w-full sm:w-auto px-3 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+        >
+          <option value="VEVENT">Events (works in every calendar app)</option>
+          <option value="VTODO">Tasks (VTODO, for apps that support them)</option>
+        </select>
+      </label>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Getting your feed URL...</p>
+      ) : isError ? (
+        <div className="text-sm text-red-600">
+          <p className="mb-2">{(error as Error)?.message}</p>
+          <Button size="sm" variant="outline" onClick={() => refetch()} className="text-pink-950">
+            Retry
+          </Button>
+        </div>
+      ) : (
+        feedUrl && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              aria-label="Calendar feed URL"
+              className="flex-1 min-w-0 px-3 py-2 border border-pink-300 rounded-md text-sm font-mono bg-pink-50"
+            />
+            <Button onClick={handleCopy} className="bg-pink-800 text-white hover:bg-pink-900">
+              {copied ? '✅ Copied' : 'Copy'}
+            </Button>
+            <a
+              href={calendarFeedService.toWebcal(feedUrl)}
+              className="px-4 py-2 rounded-md text-center text-sm font-medium text-pink-800 border border-pink-700 hover:bg-pink-100"
+            >
+              Open in calendar app
+            </a>
+          </div>
+        )
+      )}
+    </section>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,199 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { TodoBadges } from '@/components/todos/TodoBadges';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { useLists } from '@/hooks/useLists';
+import { useRealtimeRefetch, useTodoPage } from '@/hooks/useTodoPage';
+import { Todo, TodoStatus } from '@/services/todoService';
+import { TodoListParams, INBOX_LIST_ID } from '@/services/todoQuery';
+import { TODO_STATUSES, ApiValidationError } from '@/services/schemas';
+import { STATUS_ICONS, STATUS_LABELS, todoStatus } from '@/services/todoStatus';
+
+// Kanban board with a column per workflow status. Cards move by drag and drop
+// or with Alt+Left / Alt+Right, through the same update mutation as the list.
+export function BoardView() {
+  const { lists } = useLists();
+  const { updateTodo, mutationError, clearMutationError } = useTodoMutations();
+  const queryClient = useQueryClient();
+  const [listId, setListId] = useState<string>('');
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropStatus, setDropStatus] = useState<TodoStatus | null>(null);
+  const [moveAnnouncement, setMoveAnnouncement] = useState<string>('');
+
+  useRealtimeRefetch();
+
+  // Every todo on one page, so no column is cut short
+  const params: TodoListParams = {
+    page: 1,
+    pageSize: 0,
+    sortBy: 'manual',
+    listId: listId || undefined,
+  };
+
+  const { data: boardPage, isLoading, isError, error } = useTodoPage(params);
+
+  const todos = boardPage?.todos ?? [];
+
+  const handleMove = (todo: Todo, status: TodoStatus) => {
+    if (todoStatus(todo) === status) return;
+    updateTodo.mutate({ id: todo.id, changes: { status } });
+    setMoveAnnouncement(`Moved ${todo.todo} to ${STATUS_LABELS[status]}`);
+    requestAnimationFrame(() => document.getElementById(`board-card-${todo.id}`)?.focus());
+  };
+
+  // Alt+Left / Alt+Right moves a card to the neighbouring column
+  const handleCardKeyDown = (e: React.KeyboardEvent, todo: Todo) => {
+    if (!e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    e.preventDefault();
+    const index = TODO_STATUSES.indexOf(todoStatus(todo)) + (e.key === 'ArrowLeft' ? -1 : 1);
+    if (index >= 0 && index < TODO_STATUSES.length) handleMove(todo, TODO_STATUSES[index]);
+  };
+
+  return (
+    <main className="relative z-10 p-4 min-h-screen pb-32 bg-pink-950 text-white">
+      <section className="mb-6 max-w-6xl mx-auto px-2 flex flex-col sm:flex-row sm:items-center gap-3">
+        <h1 className="text-2xl font-bold flex-1">🗂️ Board</h1>
+        <label className="flex items-center gap-2 text-sm text-pink-100">
+          List
+          <select
+            value={listId}
+            onChange={(e) => setListId(e.target.value)}
+            className="px-3 py-1 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800"
+          >
+            <option value="">All lists</option>
+            <option value={INBOX_LIST_ID}>Inbox</option>
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      {mutationError && (
+        <div
+          role="alert"
+          className="max-w-6xl mx-auto mb-4 px-4 py-3 rounded-lg bg-red-100 border border-red-300 text-red-800 flex items-start justify-between gap-3"
+        >
+          <span className="text-sm">⚠️ {mutationError}</span>
+          <button onClick={clearMutationError} className="text-red-600 hover:text-red-800 text-sm" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+          <p>Loading the board...</p>
+        </div>
+      ) : isError ? (
+        <div className="text-center py-12">
+          <p className="text-red-400 mb-4">
+            {error instanceof ApiValidationError
+              ? 'The server returned todos in an unexpected format. Please try again later.'
+              : `Error loading the board: ${(error as any)?.message}`}
+          </p>
+          <Button
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['todos'] })}
+            variant="outline"
+            size="default"
+            className="bg-white text-pink-950"
+          >
+            Retry
+          </Button>
+        </div>
+      ) : (
+        <section className="max-w-6xl mx-auto px-2">
+          <p className="mb-4 text-xs text-pink-200">
+            Drag cards between columns, or focus a card and press Alt+Left / Alt+Right.
+          </p>
+          <p className="sr-only" aria-live="polite">
+            {moveAnnouncement}
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {TODO_STATUSES.map((status) => {
+              const cards = todos.filter((todo) => todoStatus(todo) === status);
+
+              return (
+                <div
+                  key={status}
+                  role="region"
+                  aria-label={`${STATUS_LABELS[status]} column`}
+                  onDragOver={(e) => {
+                    if (draggedId === null) return;
+                    e.preventDefault();
+                    setDropStatus(status);
+                  }}
+                  onDragLeave={() => setDropStatus((current) => (current === status ? null : current))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const dragged = todos.find((todo) => todo.id === draggedId);
+                    if (dragged) handleMove(dragged, status);
+                    setDraggedId(null);
+                    setDropStatus(null);
+                  }}
+                  className={`bg-pink-900/50 rounded-lg p-3 min-h-[12rem] transition-all duration-200 ${
+                    dropStatus === status ? 'ring-2 ring-pink-400' : ''
+                  }`}
+                >
+                  <h2 className="font-semibold mb-3 flex items-center justify-between">
+                    <span>
+                      {STATUS_ICONS[status]} {STATUS_LABELS[status]}
+                    </span>
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-pink-200 text-pink-950">{cards.length}</span>
+                  </h2>
+
+                  <ul className="space-y-2">
+                    {cards.map((todo) => (
+                      <li
+                        key={todo.id}
+                        id={`board-card-${todo.id}`}
+                        tabIndex={0}
+                        draggable
+                        onDragStart={() => setDraggedId(todo.id)}
+                        onDragEnd={() => {
+                          setDraggedId(null);
+                          setDropStatus(null);
+                        }}
+                        onKeyDown={(e) => handleCardKeyDown(e, todo)}
+                        aria-label={`${todo.todo}, ${STATUS_LABELS[status]}. Use Alt+Left and Alt+Right to move.`}
+                        className={`bg-pink-100 border rounded-lg p-3 text-gray-800 cursor-grab focus:outline focus:ring ${
+                          todo.syncStatus === 'pending'
+                            ? 'border-amber-400 bg-amber-50'
+                            : todo.syncStatus === 'conflict'
+                            ? 'border-red-400 bg-red-50'
+                            : 'border-pink-300'
+                        } ${draggedId === todo.id ? 'opacity-50' : ''}`}
+                      >
+                        <Link
+                          href={`/todos/${todo.id}`}
+                          className="text-pink-800 underline hover:text-pink-900 focus:outline focus:ring break-words font-medium"
+                        >
+                          {todo.todo}
+                        </Link>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                          {todo.starred && <span aria-label="Starred">⭐</span>}
+                          <TodoBadges todo={todo} />
+                          {todo.syncStatus === 'pending' && (
+                            <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full">🔄 Syncing</span>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
\ No newline at end of file
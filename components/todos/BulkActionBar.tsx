@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle, DialogClose } from '@/components/ui/Dialog';
+import { useLists } from '@/hooks/useLists';
+import { TodoBatchAction } from '@/services/batchActions';
+import { INBOX_LIST_ID } from '@/services/todoQuery';
+
+interface BulkActionBarProps {
+  count: number;
+  isPending: boolean;
+  isOffline: boolean;
+  onAction: (action: TodoBatchAction) => void;
+  onClear: () => void;
+}
+
+const actionClassName = 'text-pink-800 border border-pink-700 hover:bg-pink-200';
+
+// Toolbar for the todos selected in the list
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, isPending, isOffline, onAction, onClear }) => {
+  const { lists } = useLists();
+  const [tag, setTag] = useState('');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag.trim()) return;
+    onAction({ type: 'tag', tag: tag.trim() });
+    setTag('');
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="sticky top-2 z-20 flex flex-wrap items-center gap-2 bg-white text-gray-800 p-3 mb-4 rounded-xl shadow-lg border border-pink-300"
+    >
+      <span className="font-medium text-pink-900 mr-2">{count} selected</span>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => onAction({ type: 'complete' })}
+        className={actionClassName}
+      >
+        ✅ Complete
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => onAction({ type: 'uncomplete' })}
+        className={actionClassName}
+      >
+        ↩️ Reopen
+      </Button>
+      <form onSubmit={handleTag} className="flex gap-1">
+        <input
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="Add tag"
+          aria-label="Tag to add"
+          className="w-28 px-2 py-1 text-sm border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isPending || !tag.trim()} className={actionClassName}>
+          🏷️ Tag
+        </Button>
+      </form>
+      <select
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          onAction({ type: 'move', listId: e.target.value === INBOX_LIST_ID ? null : e.target.value });
+        }}
+        disabled={isPending}
+        aria-label="Move to list"
+        className="px-2 py-1 text-sm border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+      >
+        <option value="">📂 Move to...</option>
+        <option value={INBOX_LIST_ID}>Inbox</option>
+        {lists.map((list) => (
+          <option key={list.id} value={list.id}>
+            {list.name}
+          </option>
+        ))}
+      </select>
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={isPending}
+        onClick={() => setIsDeleteOpen(true)}
+        className="bg-pink-800 text-white hover:bg-pink-900"
+      >
+        🗑️ Trash
+      </Button>
+      <button onClick={onClear} className="ml-auto text-sm text-pink-700 underline hover:text-pink-900">
+        Clear selection
+      </button>
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-md">
+          <DialogTitle className="text-lg font-semibold">Move {count} Todos to Trash?</DialogTitle>
+          <p className="text-gray-700 my-3">
+            The selected todos will be moved to the trash, where you can restore them. You can also undo this with
+            Ctrl+Z or the Undo button.
+            {isOffline && (
+              <span className="block mt-2 text-amber-600 text-sm">
+                You're offline. They will be synced when you reconnect.
+              </span>
+            )}
+          </p>
+          <div className="flex justify-end gap-2 mt-4 flex-wrap">
+            <DialogClose asChild>
+              <Button variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button
+              onClick={() => {
+                onAction({ type: 'delete' });
+                setIsDeleteOpen(false);
+              }}
+              variant="default"
+              size="default"
+              className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+            >
+              Move to Trash
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,349 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { SearchQueryInput } from '@/components/todos/SearchQueryInput';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { useLists } from '@/hooks/useLists';
+import { useKnownTags, useRealtimeRefetch, useTodoPage } from '@/hooks/useTodoPage';
+import { Todo } from '@/services/todoService';
+import { isOverdue, TodoListParams, TodoStatusFilter } from '@/services/todoQuery';
+import {
+  calendarDays,
+  calendarHref,
+  calendarTitle,
+  CalendarMode,
+  CALENDAR_MODES,
+  filtersFromQuery,
+  groupByDay,
+  listHref,
+  rescheduledDueAt,
+  shiftAnchor,
+} from '@/services/calendar';
+import { dateKey } from '@/services/recurrence';
+import { ApiValidationError } from '@/services/schemas';
+
+// The calendar loads one big page sorted by due date instead of querying by range
+const CALENDAR_LIMIT = 500;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MODE_LABELS: Record<CalendarMode, string> = { month: 'Month', week: 'Week', agenda: 'Agenda' };
+
+// Month, week and agenda views of todos by due date, filtered like the list.
+// Dropping a todo on another day, or Alt+arrow keys, reschedules it.
+export function CalendarView() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const initialFilters = filtersFromQuery(new URLSearchParams(searchParams.toString()));
+  const { getListName } = useLists();
+  const { updateTodo, mutationError, clearMutationError } = useTodoMutations();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState<Date>(() => new Date());
+  const [searchQuery, setSearchQuery] = useState<string>(initialFilters.search ?? '');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>(initialFilters.search ?? '');
+  const [filterStatus, setFilterStatus] = useState<TodoStatusFilter>(initialFilters.status ?? 'all');
+  const [tagFilter, setTagFilter] = useState<string | undefined>(initialFilters.tag);
+  const listId = initialFilters.listId;
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const [moveAnnouncement, setMoveAnnouncement] = useState<string>('');
+
+  useRealtimeRefetch();
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const filters = { search: debouncedSearch, status: filterStatus, tag: tagFilter, listId };
+
+  // Keep the filters in the URL, so the list opens with them again
+  useEffect(() => {
+    const href = calendarHref(filters);
+    if ((href.split('?')[1] ?? '') === searchParams.toString()) return;
+    router.replace(href, { scroll: false });
+  }, [debouncedSearch, filterStatus, tagFilter, listId, searchParams, router]);
+
+  const knownTags = useKnownTags();
+  const params = useMemo<TodoListParams>(
+    () => ({ page: 1, pageSize: CALENDAR_LIMIT, sortBy: 'due_asc', ...filters }),
+    [debouncedSearch, filterStatus, tagFilter, listId]
+  );
+
+  const { data: calendarPage, isLoading, isError, error } = useTodoPage(params);
+
+  const todos = calendarPage?.todos ?? [];
+  const byDay = useMemo(() => groupByDay(todos), [todos]);
+  const unscheduled = todos.filter((todo) => !todo.dueAt);
+  const days = calendarDays(view, anchor);
+  const todayKey = dateKey(new Date());
+
+  const handleReschedule = (todo: Todo, day: Date) => {
+    if (todo.dueAt && dateKey(new Date(todo.dueAt)) === dateKey(day)) return;
+    updateTodo.mutate({ id: todo.id, changes: { dueAt: rescheduledDueAt(todo, day) } });
+    setMoveAnnouncement(`Moved ${todo.todo} to ${day.toLocaleDateString(undefined, { dateStyle: 'full' })}`);
+    requestAnimationFrame(() => document.getElementById(`calendar-todo-${todo.id}`)?.focus());
+  };
+
+  // Alt+Left / Alt+Right moves a todo a day, Alt+Up / Alt+Down a week
+  const handleTodoKeyDown = (e: React.KeyboardEvent, todo: Todo) => {
+    const steps: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 };
+    if (!e.altKey || !todo.dueAt || !(e.key in steps)) return;
+    e.preventDefault();
+    const due = new Date(todo.dueAt);
+    handleReschedule(todo, new Date(due.getFullYear(), due.getMonth(), due.getDate() + steps[e.key]));
+  };
+
+  const dropTarget = (day: Date) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (draggedId === null) return;
+      e.preventDefault();
+      setDropDay(dateKey(day));
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const dragged = todos.find((todo) => todo.id === draggedId);
+      if (dragged) handleReschedule(dragged, day);
+      setDraggedId(null);
+      setDropDay(null);
+    },
+  });
+
+  const renderTodo = (todo: Todo) => {
+    const overdue = isOverdue(todo);
+
+    return (
+      <li
+        key={todo.id}
+        draggable
+        onDragStart={() => setDraggedId(todo.id)}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDropDay(null);
+        }}
+        onKeyDown={(e) => handleTodoKeyDown(e, todo)}
+        title={todo.dueAt ? new Date(todo.dueAt).toLocaleString() : 'No due date'}
+        className={`text-xs rounded px-2 py-1 border cursor-grab focus-within:ring truncate ${
+          todo.completed
+            ? 'bg-green-50 border-green-300 text-green-800 line-through opacity-70'
+            : overdue
+            ? 'bg-red-100 border-red-400 text-red-800 font-semibold'
+            : 'bg-pink-100 border-pink-300 text-pink-900'
+        } ${todo.syncStatus === 'pending' ? 'border-dashed border-amber-400' : ''} ${
+          draggedId === todo.id ? 'opacity-50' : ''
+        }`}
+      >
+        <Link
+          id={`calendar-todo-${todo.id}`}
+          href={`/todos/${todo.id}`}
+          className="hover:underline focus:outline-none"
+          aria-label={`${todo.todo}${todo.completed ? ', completed' : overdue ? ', overdue' : ''}${
+            todo.dueAt ? '. Use Alt+arrow keys to reschedule.' : ''
+          }`}
+        >
+          {todo.dueAt && view !== 'month' && (
+            <span className="mr-1 font-normal">
+              {new Date(todo.dueAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+            </span>
+          )}
+          {todo.completed ? '✅ ' : overdue ? '⏰ ' : ''}
+          {todo.todo}
+        </Link>
+      </li>
+    );
+  };
+
+  return (
+    <main className="relative z-10 p-4 min-h-screen pb-32 bg-pink-950 text-white">
+      <section className="mb-6 max-w-6xl mx-auto px-2">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <h1 className="text-2xl font-bold flex-1">
+            📅 Calendar{listId && <span className="text-pink-200"> · {getListName(listId) ?? 'List'}</span>}
+          </h1>
+          <Link href={listHref(filters)} className="text-sm text-pink-200 underline hover:text-white">
+            ← Back to the list
+          </Link>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:flex-wrap items-stretch sm:items-center gap-3 bg-white p-4 rounded-xl shadow-md">
+          <SearchQueryInput value={searchQuery} onChange={setSearchQuery} tags={knownTags} />
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as TodoStatusFilter)}
+            className="px-4 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800 w-full sm:w-auto"
+          >
+            <option value="all">All</option>
+            <option value="completed">Completed</option>
+            <option value="incomplete">Incomplete</option>
+            <option value="pending">Pending Sync</option>
+            <option value="overdue">Overdue</option>
+            <option value="due_today">Due Today</option>
+            <option value="high_priority">High Priority</option>
+          </select>
+          {tagFilter && (
+            <button
+              onClick={() => setTagFilter(undefined)}
+              className="px-3 py-1 rounded-full bg-pink-200 text-pink-900 text-sm hover:bg-pink-300"
+              aria-label={`Clear tag filter ${tagFilter}`}
+            >
+              #{tagFilter} ✕
+            </button>
+          )}
+        </div>
+      </section>
+
+      {mutationError && (
+        <div
+          role="alert"
+          className="max-w-6xl mx-auto mb-4 px-4 py-3 rounded-lg bg-red-100 border border-red-300 text-red-800 flex items-start justify-between gap-3"
+        >
+          <span className="text-sm">⚠️ {mutationError}</span>
+          <button onClick={clearMutationError} className="text-red-600 hover:text-red-800 text-sm" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <section className="max-w-6xl mx-auto px-2">
+        <nav className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+              onClick={() => setAnchor((current) => shiftAnchor(view, current, -1))}
+              aria-label="Previous"
+            >
+              ←
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+              onClick={() => setAnchor(new Date())}
+            >
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+              onClick={() => setAnchor((current) => shiftAnchor(view, current, 1))}
+              aria-label="Next"
+            >
+              →
+            </Button>
+          </div>
+          <h2 className="text-lg font-semibold flex-1">{calendarTitle(view, anchor)}</h2>
+          <div className="flex gap-1" role="group" aria-label="Calendar view">
+            {CALENDAR_MODES.map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                  view === option ? 'bg-pink-200 text-pink-950' : 'text-pink-100 hover:bg-pink-800'
+                }`}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </nav>
+
+        {(calendarPage?.total ?? 0) > CALENDAR_LIMIT && (
+          <p className="mb-4 text-sm text-amber-300">
+            Showing the first {CALENDAR_LIMIT} of {calendarPage?.total} todos by due date. Narrow the search to see
+            the rest.
+          </p>
+        )}
+        <p className="sr-only" aria-live="polite">
+          {moveAnnouncement}
+        </p>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+            <p>Loading the calendar...</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-400 mb-4">
+              {error instanceof ApiValidationError
+                ? 'The server returned todos in an unexpected format. Please try again later.'
+                : `Error loading the calendar: ${(error as any)?.message}`}
+            </p>
+            <Button
+              onClick={() => queryClient.invalidateQueries({ queryKey: ['todos'] })}
+              variant="outline"
+              size="default"
+              className="bg-white text-pink-950"
+            >
+              Retry
+            </Button>
+          </div>
+        ) : view === 'agenda' ? (
+          <ol className="space-y-3">
+            {days.every((day) => !byDay.has(dateKey(day))) && (
+              <li className="text-center py-12 text-pink-200">Nothing is due in these two weeks.</li>
+            )}
+            {days
+              .filter((day) => byDay.has(dateKey(day)))
+              .map((day) => (
+                <li
+                  key={dateKey(day)}
+                  {...dropTarget(day)}
+                  className={`bg-pink-900/50 rounded-lg p-3 ${dropDay === dateKey(day) ? 'ring-2 ring-pink-400' : ''}`}
+                >
+                  <h3 className={`font-semibold mb-2 ${dateKey(day) === todayKey ? 'text-pink-200' : ''}`}>
+                    {day.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+                    {dateKey(day) === todayKey && ' · Today'}
+                  </h3>
+                  <ul className="space-y-1">{byDay.get(dateKey(day))!.map(renderTodo)}</ul>
+                </li>
+              ))}
+          </ol>
+        ) : (
+          <div className="grid grid-cols-7 gap-1" role="grid" aria-label={calendarTitle(view, anchor)}>
+            {WEEKDAY_LABELS.map((label) => (
+              <div key={label} className="text-center text-xs font-semibold text-pink-200 py-1" role="columnheader">
+                {label}
+              </div>
+            ))}
+            {days.map((day) => {
+              const key = dateKey(day);
+              const outside = view === 'month' && day.getMonth() !== anchor.getMonth();
+
+              return (
+                <div
+                  key={key}
+                  role="gridcell"
+                  aria-label={day.toLocaleDateString(undefined, { dateStyle: 'full' })}
+                  {...dropTarget(day)}
+                  className={`rounded-lg p-1 overflow-y-auto ${view === 'week' ? 'min-h-[16rem]' : 'min-h-[6rem] max-h-40'} ${
+                    outside ? 'bg-pink-900/20 text-pink-300' : 'bg-pink-900/50'
+                  } ${key === todayKey ? 'ring-1 ring-pink-200' : ''} ${dropDay === key ? 'ring-2 ring-pink-400' : ''}`}
+                >
+                  <div className={`text-xs mb-1 ${key === todayKey ? 'font-bold text-white' : ''}`}>{day.getDate()}</div>
+                  <ul className="space-y-1">{byDay.get(key)?.map(renderTodo)}</ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {unscheduled.length > 0 && (
+          <section className="mt-6" aria-label="Todos without a due date">
+            <h3 className="font-semibold mb-2">No due date · drag onto a day to schedule</h3>
+            <ul className="flex flex-wrap gap-2">{unscheduled.map(renderTodo)}</ul>
+          </section>
+        )}
+      </section>
+    </main>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle, DialogClose } from '@/components/ui/Dialog';
+import { CONFLICT_FIELDS, ConflictField, assignField, fieldEquals } from '@/services/syncService';
+import { TodoConflict } from '@/services/db';
+import { Todo } from '@/services/todoService';
+import { FIELD_LABELS, formatFieldValue } from '@/services/todoFields';
+import { useLists } from '@/hooks/useLists';
+
+interface ConflictResolutionDialogProps {
+  conflict: TodoConflict | null;
+  isResolving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (resolved: Todo) => void;
+}
+
+type Side = 'local' | 'remote';
+
+export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
+  conflict,
+  isResolving = false,
+  onOpenChange,
+  onResolve,
+}) => {
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, Side>>>({});
+  const { getListName } = useLists();
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.todoId]);
+
+  if (!conflict) return null;
+
+  const { local, remote } = conflict;
+  const differing = CONFLICT_FIELDS.filter((field) => !fieldEquals(local[field], remote[field]));
+
+  const keepMine = () => onResolve({ ...remote, ...local });
+  const keepTheirs = () => onResolve({ ...local, ...remote });
+  const mergeFields = () => {
+    const merged: Todo = { ...local };
+    for (const field of differing) {
+      if ((choices[field] ?? 'local') === 'remote') {
+        assignField(merged, field, remote[field]);
+      }
+    }
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={onOpenChange}>
+      <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-2xl">
+        <DialogTitle className="text-lg font-semibold text-gray-900">Resolve Sync Conflict</DialogTitle>
+        <p className="text-gray-700 text-sm my-3">
+          This todo was changed by someone else while you were offline. Choose which version to keep, or pick a
+          value for each field.
+        </p>
+
+        <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-2 text-sm text-gray-800 items-center">
+          <div></div>
+          <div className="font-semibold text-pink-800">Your version</div>
+          <div className="font-semibold text-blue-800">Their version</div>
+
+          {CONFLICT_FIELDS.map((field) => {
+            const isDifferent = differing.includes(field);
+            const choice = choices[field] ?? 'local';
+
+            return (
+              <React.Fragment key={field}>
+                <div className="text-gray-600">{FIELD_LABELS[field]}</div>
+                {(['local', 'remote'] as Side[]).map((side) => {
+                  const value = side === 'local' ? local[field] : remote[field];
+                  return (
+                    <label
+                      key={side}
+                      className={`flex items-start gap-2 rounded border px-3 py-2 break-words ${
+                        isDifferent
+                          ? choice === side
+                            ? 'border-pink-500 bg-pink-50'
+                            : 'border-gray-200'
+                          : 'border-transparent text-gray-500'
+                      }`}
+                    >
+                      {isDifferent && (
+                        <input
+                          type="radio"
+                          name={`conflict-${field}`}
+                          checked={choice === side}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                          className="mt-1 accent-pink-800"
+                        />
+                      )}
+                      <span>
+                        {field === 'listId' ? getListName(value as string | null) ?? 'Inbox' : formatFieldValue(field, value)}
+                      </span>
+                    </label>
+                  );
+                })}
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-2 mt-6 flex-wrap">
+          <DialogClose asChild>
+            <Button variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+              Later
+            </Button>
+          </DialogClose>
+          <Button
+            onClick={keepTheirs}
+            disabled={isResolving}
+            variant="outline"
+            size="default"
+            className="border-blue-600 text-blue-700 hover:bg-blue-50 w-full sm:w-auto"
+          >
+            Keep Theirs
+          </Button>
+          <Button
+            onClick={keepMine}
+            disabled={isResolving}
+            variant="outline"
+            size="default"
+            className="border-pink-600 text-pink-700 hover:bg-pink-50 w-full sm:w-auto"
+          >
+            Keep Mine
+          </Button>
+          <Button
+            onClick={mergeFields}
+            disabled={isResolving || differing.length === 0}
+            variant="default"
+            size="default"
+            className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+          >
+            {isResolving ? 'Resolving...' : 'Merge Selected'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
\ No newline at end of file
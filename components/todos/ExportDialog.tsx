@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle, DialogClose } from '@/components/ui/Dialog';
+import { useLists } from '@/hooks/useLists';
+import { downloadFile } from '@/lib/utils';
+import { Todo } from '@/services/todoService';
+import { exportFilename, exportTodos, TransferFormat, TRANSFER_FORMATS } from '@/services/todoTransfer';
+
+export type ExportScope = 'view' | 'all';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Number of todos matching the current search and filters
+  viewCount: number;
+  loadTodos: (scope: ExportScope) => Promise<Todo[]>;
+}
+
+// Download the current view or every todo as JSON, CSV or a Markdown checklist
+export const ExportDialog: React.FC<ExportDialogProps> = ({ open, onOpenChange, viewCount, loadTodos }) => {
+  const { lists } = useLists();
+  const [scope, setScope] = useState<ExportScope>('view');
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    setError(null);
+    try {
+      const todos = await loadTodos(scope);
+      downloadFile(exportTodos(todos, format, lists), exportFilename(format), TRANSFER_FORMATS[format].mimeType);
+      onOpenChange(false);
+    } catch (err) {
+      setError(`Couldn't export todos: ${(err as Error)?.message ?? 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-md">
+        <DialogTitle className="text-lg font-semibold text-pink-950">Export Todos</DialogTitle>
+        <form onSubmit={handleExport} className="text-gray-800">
+          <fieldset className="my-4 space-y-2">
+            <legend className="text-sm font-medium mb-1">Todos</legend>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'view'}
+                onChange={() => setScope('view')}
+                className="accent-pink-800"
+              />
+              The current view ({viewCount} {viewCount === 1 ? 'todo' : 'todos'})
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'all'}
+                onChange={() => setScope('all')}
+                className="accent-pink-800"
+              />
+              All todos
+            </label>
+          </fieldset>
+          <label className="block text-sm font-medium">
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TransferFormat)}
+              className="mt-1 block w-full px-3 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+            >
+              {(Object.keys(TRANSFER_FORMATS) as TransferFormat[]).map((option) => (
+                <option key={option} value={option}>
+                  {TRANSFER_FORMATS[option].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {format !== 'json' && (
+            <p className="text-xs text-gray-600 mt-2">
+              {format === 'csv'
+                ? 'CSV leaves out subtasks, reminders and repeat rules.'
+                : 'Markdown keeps titles, tags, due dates and subtasks.'}{' '}
+              Export as JSON to keep everything but ids and timestamps.
+            </p>
+          )}
+          {error && (
+            <p role="alert" className="text-sm text-red-600 mt-3">
+              {error}
+            </p>
+          )}
+          <div className="flex justify-end gap-2 mt-4 flex-wrap">
+            <DialogClose asChild>
+              <Button type="button" variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button
+              type="submit"
+              disabled={isExporting}
+              className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle, DialogClose } from '@/components/ui/Dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useUndo } from '@/contexts/UndoContext';
+import { useLists } from '@/hooks/useLists';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { todoService, Todo } from '@/services/todoService';
+import { db } from '@/services/db';
+import { HistoryOperation } from '@/services/history';
+import {
+  CSV_FIELDS,
+  CSV_FIELD_LABELS,
+  CsvField,
+  CsvMapping,
+  formatFromFilename,
+  guessCsvMapping,
+  markDuplicates,
+  parseCsv,
+  readImport,
+  TransferFormat,
+  TRANSFER_FORMATS,
+} from '@/services/todoTransfer';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // List that todos without a known list are added to
+  listId?: string;
+}
+
+const PREVIEW_LIMIT = 50;
+
+// Read todos from a JSON, CSV or Markdown file, preview them with duplicates
+// left out, and add the chosen ones through the regular create mutation
+export const ImportDialog: React.FC<ImportDialogProps> = ({ open, onOpenChange, listId }) => {
+  const { user } = useAuth();
+  const { isOffline } = useOffline();
+  const { record } = useUndo();
+  const { lists } = useLists();
+  const { createAsPartOf } = useTodoMutations();
+  const queryClient = useQueryClient();
+  const [filename, setFilename] = useState<string>('');
+  const [text, setText] = useState<string>('');
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [existing, setExisting] = useState<Todo[]>([]);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; failed: number; total: number } | null>(null);
+
+  // Duplicates are checked against every todo, or against the ones cached on
+  // this device while offline or when the todos cannot be loaded
+  useEffect(() => {
+    if (!open) return;
+    const loadExisting = async () =>
+      isOffline ? db.todos.toArray() : (await todoService.list({ page: 1, pageSize: 0 })).todos;
+    loadExisting()
+      .catch(() => db.todos.toArray())
+      .then(setExisting);
+  }, [open, isOffline]);
+
+  const preview = useMemo(() => {
+    if (!text) return null;
+    const result = readImport(
+      text,
+      format,
+      { lists, listId: listId ?? null, userId: user?.id },
+      format === 'csv' ? mapping : undefined
+    );
+    return { ...result, candidates: markDuplicates(result.todos, existing) };
+  }, [text, format, mapping, lists, listId, user, existing]);
+
+  // Start from every todo that is not a duplicate
+  useEffect(() => {
+    setIncluded(
+      new Set(preview?.candidates.flatMap((candidate, index) => (candidate.duplicate ? [] : [index])) ?? [])
+    );
+  }, [preview]);
+
+  const reset = () => {
+    setFilename('');
+    setText('');
+    setHeaders([]);
+    setMapping({});
+    setProgress(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (progress && progress.done + progress.failed < progress.total) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const readFileContent = (content: string, nextFormat: TransferFormat) => {
+    setFormat(nextFormat);
+    setText(content);
+    const firstRow = nextFormat === 'csv' ? parseCsv(content)[0] ?? [] : [];
+    setHeaders(firstRow);
+    setMapping(guessCsvMapping(firstRow));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFilename(file.name);
+    setProgress(null);
+    readFileContent(await file.text(), formatFromFilename(file.name) ?? 'json');
+  };
+
+  const toggleIncluded = (index: number) => {
+    setIncluded((current) => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const chosen = Array.from(included).sort((a, b) => a - b);
+    const failed: number[] = [];
+    const operations: HistoryOperation[] = [];
+    let done = 0;
+    setProgress({ done, failed: 0, total: chosen.length });
+
+    // One at a time, so progress can be shown and a failure only skips its
+    // own todo. The whole import is undone in one step.
+    for (const index of chosen) {
+      const created = await createAsPartOf(preview.candidates[index].todo);
+      if (created.length > 0) done++;
+      else failed.push(index);
+      operations.push(...created);
+      setProgress({ done, failed: failed.length, total: chosen.length });
+    }
+    record(`Import ${done} ${done === 1 ? 'todo' : 'todos'}`, operations);
+
+    queryClient.invalidateQueries({ queryKey: ['todos'] });
+    if (failed.length === 0) {
+      handleOpenChange(false);
+      return;
+    }
+    // Leave just the failed todos checked, ready for another try
+    setIncluded(new Set(failed));
+  };
+
+  const isImporting = !!progress && progress.done + progress.failed < progress.total;
+  const duplicates = preview?.candidates.filter((candidate) => candidate.duplicate).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-2xl">
+        <DialogTitle className="text-lg font-semibold text-pink-950">Import Todos</DialogTitle>
+        <div className="text-gray-800">
+          <p className="text-sm text-gray-700 my-3">
+            Choose a JSON export, a CSV file or a Markdown checklist (<code>- [ ] Todo</code>).
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+            <input
+              type="file"
+              accept=".json,.csv,.md,.markdown,.txt"
+              onChange={handleFile}
+              disabled={isImporting}
+              aria-label="File to import"
+              className="text-sm flex-1"
+            />
+            {filename && (
+              <select
+                value={format}
+                onChange={(e) => readFileContent(text, e.target.value as TransferFormat)}
+                disabled={isImporting}
+                aria-label="File format"
+                className="px-3 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-sm"
+              >
+                {(Object.keys(TRANSFER_FORMATS) as TransferFormat[]).map((option) => (
+                  <option key={option} value={option}>
+                    {TRANSFER_FORMATS[option].label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {format === 'csv' && headers.length > 0 && (
+            <fieldset className="mt-4">
+              <legend className="text-sm font-medium mb-2">Columns</legend>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {CSV_FIELDS.map((field: CsvField) => (
+                  <label key={field} className="text-xs">
+                    {CSV_FIELD_LABELS[field]}
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) =>
+                        setMapping((current) => ({
+                          ...current,
+                          [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                        }))
+                      }
+                      disabled={isImporting}
+                      className="mt-1 block w-full px-2 py-1 border border-pink-300 rounded-md text-sm"
+                    >
+                      <option value="">Not imported</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {preview && (
+            <section className="mt-4" aria-label="Preview">
+              <p className="text-sm mb-2">
+                {preview.candidates.length} {preview.candidates.length === 1 ? 'todo' : 'todos'} found
+                {duplicates > 0 && `, ${duplicates} already in your todos and left unchecked`}.
+              </p>
+              {preview.errors.length > 0 && (
+                <ul className="text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2 mb-2 max-h-24 overflow-y-auto">
+                  {preview.errors.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              {preview.candidates.length > 0 && (
+                <ul className="border border-pink-200 rounded divide-y divide-pink-100 max-h-64 overflow-y-auto">
+                  {preview.candidates.slice(0, PREVIEW_LIMIT).map(({ todo, duplicate }, index) => (
+                    <li key={index} className="flex items-center gap-2 px-2 py-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={included.has(index)}
+                        onChange={() => toggleIncluded(index)}
+                        disabled={isImporting}
+                        aria-label={`Import ${todo.todo}`}
+                        className="accent-pink-800"
+                      />
+                      <span className={`flex-1 truncate ${todo.completed ? 'line-through text-gray-500' : ''}`}>
+                        {todo.todo}
+                      </span>
+                      {todo.dueAt && (
+                        <span className="text-xs text-purple-800">📅 {new Date(todo.dueAt).toLocaleDateString()}</span>
+                      )}
+                      {todo.tags?.map((tag) => (
+                        <span key={tag} className="text-xs px-1 rounded bg-pink-100 text-pink-900">
+                          #{tag}
+                        </span>
+                      ))}
+                      {duplicate && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">Duplicate</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {preview.candidates.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-600 mt-1">
+                  And {preview.candidates.length - PREVIEW_LIMIT} more, imported unless they are duplicates.
+                </p>
+              )}
+            </section>
+          )}
+
+          {progress && (
+            <p role="status" className="text-sm mt-3">
+              {isImporting
+                ? `Importing ${progress.done + progress.failed + 1} of ${progress.total}...`
+                : `Imported ${progress.done} of ${progress.total}.`}
+              {progress.failed > 0 && <span className="text-red-600"> {progress.failed} failed.</span>}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 mt-4 flex-wrap">
+            <DialogClose asChild>
+              <Button
+                type="button"
+                variant="outline"
+                size="default"
+                disabled={isImporting}
+                className="text-pink-950 w-full sm:w-auto"
+              >
+                {progress && !isImporting ? 'Close' : 'Cancel'}
+              </Button>
+            </DialogClose>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || included.size === 0}
+              className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+            >
+              Import {included.size} {included.size === 1 ? 'todo' : 'todos'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+
+// Small markdown subset for todo descriptions: headings, bullet and numbered
+// lists, paragraphs, **bold**, *italic*, `code` and [links](url). Output is
+// built from React elements, so raw HTML in the text is never rendered.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return (
+        <code key={index} className="px-1 rounded bg-gray-100 text-pink-800 text-sm">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && /^(https?:|mailto:)/.test(link[2])) {
+      return (
+        <a key={index} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-pink-700 underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+
+export const Markdown: React.FC<{ source: string; className?: string }> = ({ source, className }) => {
+  const blocks: React.ReactNode[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(<p key={blocks.length}>{renderInline(paragraph.join(' '))}</p>);
+    paragraph = [];
+  };
+
+  const flushList = () => {
+    if (!list) return;
+    const items = list.items.map((item, index) => <li key={index}>{renderInline(item)}</li>);
+    blocks.push(
+      list.ordered ? (
+        <ol key={blocks.length} className="list-decimal pl-6">
+          {items}
+        </ol>
+      ) : (
+        <ul key={blocks.length} className="list-disc pl-6">
+          {items}
+        </ul>
+      )
+    );
+    list = null;
+  };
+
+  for (const line of source.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const size = ['text-xl', 'text-lg', 'text-base'][heading[1].length - 1];
+      blocks.push(
+        <p key={blocks.length} className={`${size} font-semibold`}>
+          {renderInline(heading[2])}
+        </p>
+      );
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !!numbered;
+      if (list && list.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  return <div className={`space-y-2 break-words ${className ?? ''}`}>{blocks}</div>;
+};
\ No newline at end of file
@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Todo, TodoChanges } from '@/services/todoService';
+import { describeRecurrence, nextOccurrence, skipOccurrence, toggleSkipped, upcomingOccurrences } from '@/services/recurrence';
+
+interface RecurrencePanelProps {
+  todo: Todo;
+  onChange: (changes: TodoChanges) => void;
+}
+
+// Repeat rule, upcoming occurrences and skip controls for the detail page
+export const RecurrencePanel: React.FC<RecurrencePanelProps> = ({ todo, onChange }) => {
+  const rule = todo.recurrence;
+  if (!rule) return null;
+
+  const upcoming = upcomingOccurrences(todo);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 gap-3 flex-wrap">
+        <h2 className="text-lg font-semibold">🔁 {describeRecurrence(rule)}</h2>
+        {!todo.completed && (
+          <Button
+            onClick={() => onChange(skipOccurrence(todo))}
+            variant="outline"
+            size="sm"
+            className="border-teal-600 text-teal-700 hover:bg-teal-50"
+          >
+            Skip this occurrence
+          </Button>
+        )}
+      </div>
+
+      {rule.frequency === 'after_completion' ? (
+        <p className="text-sm text-gray-600">
+          The next one will be due {new Date(nextOccurrence(rule, new Date())).toLocaleDateString()} if you complete
+          this today.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {upcoming.map(({ date, skipped }) => (
+            <li
+              key={date.toISOString()}
+              className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            >
+              <span className={skipped ? 'line-through text-gray-400' : 'text-gray-800'}>
+                {date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </span>
+              <button
+                onClick={() => onChange(toggleSkipped(todo, date))}
+                className="text-xs text-teal-700 hover:text-teal-900 underline"
+              >
+                {skipped ? 'Restore' : 'Skip'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
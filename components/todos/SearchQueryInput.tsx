@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { parseSearchQuery, suggestCompletions } from '@/services/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Known tags, offered as tag: completions
+  tags?: string[];
+}
+
+const fieldClassName = 'w-full px-4 py-2 border rounded-md text-gray-800 whitespace-pre';
+
+// Search box for the query language, with invalid tokens underlined and
+// completions for filter keys and values
+export const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, tags = [] }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const errorId = useId();
+  const [cursor, setCursor] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const { errors } = useMemo(() => parseSearchQuery(value), [value]);
+  const completion = useMemo(() => suggestCompletions(value, cursor, tags), [value, cursor, tags]);
+  const isOpen = isFocused && completion.suggestions.length > 0;
+
+  // Plain text with the error ranges marked, drawn under the transparent-text input
+  const segments = useMemo(() => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    errors.forEach((error, index) => {
+      parts.push(value.slice(position, error.start));
+      parts.push(
+        <mark key={index} className="bg-red-100 text-transparent underline decoration-wavy decoration-red-500">
+          {value.slice(error.start, error.end)}
+        </mark>
+      );
+      position = error.end;
+    });
+    parts.push(value.slice(position));
+    return parts;
+  }, [value, errors]);
+
+  const applySuggestion = (index: number) => {
+    const suggestion = completion.suggestions[index];
+    if (!suggestion) return;
+    const next = value.slice(0, completion.start) + suggestion.value + value.slice(completion.end);
+    const nextCursor = completion.start + suggestion.value.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    const count = completion.suggestions.length;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % count);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + count) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(Math.min(activeIndex, count - 1));
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 min-w-0 w-full sm:w-auto">
+      <div className="relative">
+        <div
+          aria-hidden="true"
+          className={`${fieldClassName} absolute inset-0 border-transparent overflow-hidden text-transparent pointer-events-none`}
+        >
+          {segments}
+        </div>
+        <input
+          ref={inputRef}
+          placeholder='Search todos... try is:open tag:work due:<2026-12-01 "exact phrase" -skip'
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart ?? e.target.value.length);
+            setActiveIndex(0);
+            setIsFocused(true);
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen ? `${listboxId}-${activeIndex}` : undefined}
+          aria-invalid={errors.length > 0}
+          aria-describedby={errors.length > 0 ? errorId : undefined}
+          className={`${fieldClassName} relative bg-transparent focus:outline-none focus:ring-2 ${
+            errors.length > 0 ? 'border-red-400 focus:ring-red-400' : 'border-pink-400 focus:ring-pink-500'
+          }`}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <p id={errorId} className="mt-1 text-xs text-red-600">
+          {errors.map((error) => error.message).join(' · ')}
+        </p>
+      )}
+
+      {isOpen && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-w-xs bg-white border border-pink-200 rounded-md shadow-lg py-1 text-sm"
+        >
+          {completion.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the blur handler does not close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(index);
+              }}
+              className={`px-3 py-1 cursor-pointer font-mono text-gray-800 ${
+                index === activeIndex ? 'bg-pink-100' : 'hover:bg-pink-50'
+              }`}
+            >
+              {suggestion.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
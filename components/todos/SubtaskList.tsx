@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Todo, TodoChanges } from '@/services/todoService';
+import {
+  addSubtask,
+  moveSubtask,
+  removeSubtask,
+  subtaskProgress,
+  toggleSubtask,
+  withSubtasks,
+} from '@/services/subtasks';
+
+interface SubtaskListProps {
+  todo: Todo;
+  onChange: (changes: TodoChanges) => void;
+}
+
+export const SubtaskProgress: React.FC<{ todo: Todo }> = ({ todo }) => {
+  const { done, total } = subtaskProgress(todo);
+  if (total === 0) return null;
+
+  return (
+    <span
+      className="text-xs px-2 py-1 rounded-full bg-white text-pink-900 border border-pink-300 flex items-center gap-2"
+      title={`${done} of ${total} subtasks done`}
+    >
+      ☑️ {done}/{total}
+      <span className="w-12 h-1.5 rounded-full bg-pink-100 overflow-hidden">
+        <span className="block h-full bg-pink-600" style={{ width: `${(done / total) * 100}%` }} />
+      </span>
+    </span>
+  );
+};
+
+// Checklist editor for the detail page
+export const SubtaskList: React.FC<SubtaskListProps> = ({ todo, onChange }) => {
+  const [newSubtask, setNewSubtask] = useState('');
+  const subtasks = todo.subtasks ?? [];
+  const { done, total } = subtaskProgress(todo);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim()) return;
+    onChange(addSubtask(todo, newSubtask));
+    setNewSubtask('');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">Subtasks</h2>
+        {total > 0 && (
+          <span className="text-sm text-gray-600">
+            {done} of {total} done
+          </span>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="w-full h-2 rounded-full bg-pink-100 overflow-hidden mb-4">
+          <div className="h-full bg-pink-600 transition-all" style={{ width: `${(done / total) * 100}%` }} />
+        </div>
+      )}
+
+      <ul className="space-y-2 mb-4">
+        {subtasks.map((subtask, index) => (
+          <li key={subtask.id} className="flex items-center gap-3 rounded-lg border border-gray-200 px-3 py-2">
+            <input
+              type="checkbox"
+              checked={subtask.completed}
+              onChange={() => onChange(toggleSubtask(todo, subtask.id))}
+              className="h-4 w-4 accent-pink-800 shrink-0"
+              aria-label={`Complete ${subtask.title}`}
+            />
+            <span className={`flex-1 min-w-0 break-words ${subtask.completed ? 'line-through text-gray-400' : ''}`}>
+              {subtask.title}
+            </span>
+            <div className="flex gap-1 shrink-0">
+              <button
+                onClick={() => onChange(moveSubtask(todo, subtask.id, -1))}
+                disabled={index === 0}
+                className="px-2 text-gray-500 hover:text-pink-700 disabled:opacity-30"
+                aria-label={`Move ${subtask.title} up`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => onChange(moveSubtask(todo, subtask.id, 1))}
+                disabled={index === subtasks.length - 1}
+                className="px-2 text-gray-500 hover:text-pink-700 disabled:opacity-30"
+                aria-label={`Move ${subtask.title} down`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(removeSubtask(todo, subtask.id))}
+                className="px-2 text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${subtask.title}`}
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          value={newSubtask}
+          onChange={(e) => setNewSubtask(e.target.value)}
+          placeholder="Add a subtask..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+        />
+        <Button type="submit" className="bg-pink-600 hover:bg-pink-700 text-white">
+          Add
+        </Button>
+      </form>
+
+      <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!todo.completeWithSubtasks}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? { ...withSubtasks({ ...todo, completeWithSubtasks: true }, subtasks), completeWithSubtasks: true }
+                : { completeWithSubtasks: false }
+            )
+          }
+          className="h-4 w-4 accent-pink-800"
+        />
+        Complete this todo when all subtasks are done
+      </label>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { useLists } from '@/hooks/useLists';
+import { activityService, ActivityChange, ActivityType } from '@/services/activityService';
+import { ActivityRecord } from '@/services/db';
+import { FIELD_LABELS, formatFieldValue } from '@/services/todoFields';
+
+interface TodoActivityProps {
+  todoId: number;
+}
+
+const ACTIVITY_VERBS: Record<ActivityType, { icon: string; verb: string }> = {
+  created: { icon: '✨', verb: 'created this todo' },
+  edited: { icon: '✏️', verb: 'edited' },
+  toggled: { icon: '✅', verb: 'changed the status' },
+  reassigned: { icon: '👤', verb: 'reassigned' },
+  trashed: { icon: '🗑️', verb: 'moved this todo to the trash' },
+  restored: { icon: '♻️', verb: 'restored this todo' },
+};
+
+// Timeline of who changed the todo and how, newest first
+export const TodoActivity: React.FC<TodoActivityProps> = ({ todoId }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { todoUpdates } = useRealtime();
+  const { getListName } = useLists();
+
+  const { data: entries = [], isLoading } = useQuery<ActivityRecord[]>({
+    queryKey: ['activity', todoId],
+    queryFn: () => activityService.forTodo(todoId),
+  });
+
+  // Realtime changes are recorded before they reach todoUpdates
+  useEffect(() => {
+    const latestUpdate = todoUpdates[todoUpdates.length - 1];
+    if (latestUpdate?.todo?.id === todoId) {
+      queryClient.invalidateQueries({ queryKey: ['activity', todoId] });
+    }
+  }, [todoUpdates, queryClient, todoId]);
+
+  const actorName = (entry: ActivityRecord) =>
+    entry.userId === user?.id?.toString() ? 'You' : entry.userName || `User ${entry.userId}`;
+
+  const formatChange = ({ field, before, after }: ActivityChange) =>
+    field === 'listId'
+      ? [getListName(before as string | null) ?? 'Inbox', getListName(after as string | null) ?? 'Inbox']
+      : [formatFieldValue(field, before), formatFieldValue(field, after)];
+
+  return (
+    <section aria-labelledby="activity-heading">
+      <h2 id="activity-heading" className="text-lg font-semibold mb-4">
+        Activity
+      </h2>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No activity recorded on this device yet.</p>
+      ) : (
+        <ol className="space-y-4 border-l-2 border-pink-200 pl-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="relative">
+              <span className="absolute -left-[1.6rem] top-0 bg-white leading-none" aria-hidden="true">
+                {ACTIVITY_VERBS[entry.type].icon}
+              </span>
+              <p className="text-sm">
+                <span className="font-medium">{actorName(entry)}</span> {ACTIVITY_VERBS[entry.type].verb}
+                <time dateTime={new Date(entry.timestamp).toISOString()} className="text-gray-500 ml-2 text-xs">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </time>
+                {entry.source === 'remote' && <span className="text-xs text-purple-700 ml-2">live</span>}
+              </p>
+              {entry.changes.length > 0 && (
+                <ul className="mt-1 space-y-1 text-xs text-gray-700">
+                  {entry.changes.map((change) => {
+                    const [before, after] = formatChange(change);
+                    return (
+                      <li key={change.field} className="break-words">
+                        <span className="text-gray-600">{FIELD_LABELS[change.field]}:</span>{' '}
+                        <del className="text-red-700">{before || 'None'}</del> →{' '}
+                        <ins className="text-green-800 no-underline">{after || 'None'}</ins>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
\ No newline at end of file
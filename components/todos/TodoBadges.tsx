@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import { Todo, TodoPriority } from '@/services/todoService';
+import { isOverdue } from '@/services/todoQuery';
+import { describeRecurrence } from '@/services/recurrence';
+import { describeReminder } from '@/services/reminderService';
+import { PRIORITY_LABELS } from './TodoFieldsEditor';
+
+const PRIORITY_STYLES: Record<TodoPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  normal: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+interface TodoBadgesProps {
+  todo: Todo;
+  onTagClick?: (tag: string) => void;
+}
+
+// Priority, due date and tag badges shown under a todo title
+export const TodoBadges: React.FC<TodoBadgesProps> = ({ todo, onTagClick }) => {
+  const overdue = isOverdue(todo);
+
+  return (
+    <>
+      {todo.priority && todo.priority !== 'normal' && (
+        <span className={`text-xs px-2 py-1 rounded-full ${PRIORITY_STYLES[todo.priority]}`}>
+          {todo.priority === 'urgent' ? '🔥' : todo.priority === 'high' ? '⬆️' : '⬇️'} {PRIORITY_LABELS[todo.priority]}
+        </span>
+      )}
+      {todo.dueAt && (
+        <span
+          className={`text-xs px-2 py-1 rounded-full ${
+            overdue ? 'bg-red-100 text-red-700' : 'bg-purple-100 text-purple-800'
+          }`}
+          title={new Date(todo.dueAt).toLocaleString()}
+        >
+          📅 {overdue ? 'Overdue · ' : ''}
+          {new Date(todo.dueAt).toLocaleDateString()}
+        </span>
+      )}
+      {todo.recurrence && (
+        <span className="text-xs px-2 py-1 rounded-full bg-teal-100 text-teal-800" title="Repeats">
+          🔁 {describeRecurrence(todo.recurrence)}
+        </span>
+      )}
+      {todo.reminders && todo.reminders.length > 0 && !todo.completed && (
+        <span
+          className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800"
+          title={todo.reminders.map((reminder) => describeReminder(todo, reminder)).join('\n')}
+        >
+          🔔 {todo.reminders.length}
+        </span>
+      )}
+      {todo.description && (
+        <span className="text-xs px-2 py-1 rounded-full bg-pink-50 text-pink-700" title="Has a description">
+          📝
+        </span>
+      )}
+      {todo.tags?.map((tag) =>
+        onTagClick ? (
+          <button
+            key={tag}
+            onClick={() => onTagClick(tag)}
+            className="text-xs px-2 py-1 rounded-full bg-pink-200 text-pink-900 hover:bg-pink-300"
+          >
+            #{tag}
+          </button>
+        ) : (
+          <span key={tag} className="text-xs px-2 py-1 rounded-full bg-pink-200 text-pink-900">
+            #{tag}
+          </span>
+        )
+      )}
+    </>
+  );
+};
\ No newline at end of file
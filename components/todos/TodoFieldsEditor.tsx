@@ -0,0 +1,359 @@
+'use client';
+
+import React from 'react';
+import { RECURRENCE_FREQUENCIES, TODO_PRIORITIES } from '@/services/schemas';
+import { Recurrence, Reminder, Todo, TodoChanges, TodoPriority } from '@/services/todoService';
+import { createReminder } from '@/services/reminderService';
+import { useReminders } from '@/contexts/ReminderContext';
+import { useLists } from '@/hooks/useLists';
+
+// Form state for the editable todo fields. Dates and tags are kept as the
+// strings the inputs work with and converted in draftToChanges.
+export interface TodoDraft {
+  todo: string;
+  description: string;
+  dueAt: string;
+  priority: TodoPriority;
+  tags: string;
+  // Empty for the inbox
+  listId: string;
+  repeat: Recurrence['frequency'] | 'none';
+  interval: string;
+  weekdays: number[];
+  dayOfMonth: string;
+  skipped: string[];
+  reminders: ReminderDraft[];
+}
+
+interface ReminderDraft {
+  id: string;
+  kind: Reminder['kind'];
+  at: string;
+  minutesBefore: string;
+}
+
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+const REPEAT_LABELS: Record<TodoDraft['repeat'], string> = {
+  none: 'Does not repeat',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  after_completion: 'Days after completion',
+};
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const REMINDER_OFFSETS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'When due' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+];
+
+// ISO timestamp to the local "YYYY-MM-DDTHH:mm" format of datetime-local inputs
+const toLocalInputValue = (iso?: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+export const toDraft = (todo?: Partial<Todo>): TodoDraft => ({
+  todo: todo?.todo ?? '',
+  description: todo?.description ?? '',
+  dueAt: toLocalInputValue(todo?.dueAt),
+  priority: todo?.priority ?? 'normal',
+  tags: todo?.tags?.join(', ') ?? '',
+  listId: todo?.listId ?? '',
+  repeat: todo?.recurrence?.frequency ?? 'none',
+  interval: String(todo?.recurrence?.interval ?? 1),
+  weekdays: todo?.recurrence?.weekdays ?? [],
+  dayOfMonth: todo?.recurrence?.dayOfMonth ? String(todo.recurrence.dayOfMonth) : '',
+  skipped: todo?.recurrence?.skipped ?? [],
+  reminders: (todo?.reminders ?? []).map((reminder) => ({
+    id: reminder.id,
+    kind: reminder.kind,
+    at: toLocalInputValue(reminder.at),
+    minutesBefore: String(reminder.minutesBefore ?? 15),
+  })),
+});
+
+const draftToReminders = (draft: TodoDraft): Reminder[] =>
+  draft.reminders
+    .filter((reminder) => reminder.kind === 'before_due' || reminder.at)
+    .map((reminder) =>
+      reminder.kind === 'absolute'
+        ? { id: reminder.id, kind: 'absolute', at: new Date(reminder.at).toISOString() }
+        : { id: reminder.id, kind: 'before_due', minutesBefore: Number(reminder.minutesBefore) || 0 }
+    );
+
+const draftToRecurrence = (draft: TodoDraft): Recurrence | null => {
+  if (draft.repeat === 'none') return null;
+  return {
+    frequency: draft.repeat,
+    interval: Math.max(Math.floor(Number(draft.interval)) || 1, 1),
+    weekdays: draft.repeat === 'weekly' && draft.weekdays.length ? [...draft.weekdays].sort() : undefined,
+    dayOfMonth: draft.repeat === 'monthly' && draft.dayOfMonth ? Math.min(Number(draft.dayOfMonth), 31) : undefined,
+    skipped: draft.skipped.length ? draft.skipped : undefined,
+  };
+};
+
+export const draftToChanges = (draft: TodoDraft): TodoChanges => ({
+  todo: draft.todo.trim(),
+  description: draft.description.trim(),
+  dueAt: draft.dueAt ? new Date(draft.dueAt).toISOString() : null,
+  priority: draft.priority,
+  tags: parseTags(draft.tags),
+  listId: draft.listId || null,
+  recurrence: draftToRecurrence(draft),
+  reminders: draftToReminders(draft),
+});
+
+interface TodoFieldsEditorProps {
+  draft: TodoDraft;
+  onChange: (draft: TodoDraft) => void;
+  autoFocus?: boolean;
+}
+
+const inputClassName =
+  'border border-pink-500 rounded px-3 py-2 w-full text-gray-800 focus:outline-none focus:ring-2 focus:ring-pink-500';
+
+export const TodoFieldsEditor: React.FC<TodoFieldsEditorProps> = ({ draft, onChange, autoFocus }) => {
+  const { permission, requestPermission } = useReminders();
+  const { lists } = useLists();
+  const update = (changes: Partial<TodoDraft>) => onChange({ ...draft, ...changes });
+
+  const updateReminder = (id: string, changes: Partial<ReminderDraft>) =>
+    update({ reminders: draft.reminders.map((reminder) => (reminder.id === id ? { ...reminder, ...changes } : reminder)) });
+
+  const addReminder = () => {
+    const kind = draft.dueAt ? 'before_due' : 'absolute';
+    const reminder = createReminder(kind);
+    update({
+      reminders: [
+        ...draft.reminders,
+        { id: reminder.id, kind, at: '', minutesBefore: String(reminder.minutesBefore ?? 15) },
+      ],
+    });
+    // Adding a reminder is a user gesture, which browsers require before prompting
+    if (permission === 'default') requestPermission();
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">Title</span>
+        <input
+          className={inputClassName}
+          value={draft.todo}
+          onChange={(e) => update({ todo: e.target.value })}
+          autoFocus={autoFocus}
+          required
+        />
+      </label>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">Description</span>
+        <textarea
+          className={`${inputClassName} min-h-[96px] font-mono text-sm`}
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Supports **bold**, *italic*, `code`, [links](https://example.com) and - lists"
+        />
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Due</span>
+          <input
+            type="datetime-local"
+            className={inputClassName}
+            value={draft.dueAt}
+            onChange={(e) => update({ dueAt: e.target.value })}
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Priority</span>
+          <select
+            className={inputClassName}
+            value={draft.priority}
+            onChange={(e) => update({ priority: e.target.value as TodoPriority })}
+          >
+            {TODO_PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>
+                {PRIORITY_LABELS[priority]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Tags</span>
+          <input
+            className={inputClassName}
+            value={draft.tags}
+            onChange={(e) => update({ tags: e.target.value })}
+            placeholder="work, errands"
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">List</span>
+          <select className={inputClassName} value={draft.listId} onChange={(e) => update({ listId: e.target.value })}>
+            <option value="">Inbox</option>
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Repeat</span>
+          <select
+            className={inputClassName}
+            value={draft.repeat}
+            onChange={(e) => update({ repeat: e.target.value as TodoDraft['repeat'] })}
+          >
+            {(['none', ...RECURRENCE_FREQUENCIES] as TodoDraft['repeat'][]).map((repeat) => (
+              <option key={repeat} value={repeat}>
+                {REPEAT_LABELS[repeat]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {draft.repeat !== 'none' && (
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              {draft.repeat === 'after_completion' ? 'Days after completion' : 'Every'}
+            </span>
+            <input
+              type="number"
+              min={1}
+              className={inputClassName}
+              value={draft.interval}
+              onChange={(e) => update({ interval: e.target.value })}
+            />
+          </label>
+        )}
+      </div>
+
+      {draft.repeat === 'weekly' && (
+        <div className="flex gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const selected = draft.weekdays.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() =>
+                  update({ weekdays: selected ? draft.weekdays.filter((d) => d !== day) : [...draft.weekdays, day] })
+                }
+                className={`w-8 h-8 rounded-full text-sm ${
+                  selected ? 'bg-pink-700 text-white' : 'bg-pink-50 text-pink-900 hover:bg-pink-100'
+                }`}
+                aria-pressed={selected}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {draft.repeat === 'monthly' && (
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Day of month</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            className={inputClassName}
+            value={draft.dayOfMonth}
+            onChange={(e) => update({ dayOfMonth: e.target.value })}
+            placeholder="Same day as the due date"
+          />
+        </label>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="block text-sm font-medium text-gray-700">Reminders</span>
+          <button type="button" onClick={addReminder} className="text-sm text-pink-700 hover:text-pink-900 underline">
+            + Add reminder
+          </button>
+        </div>
+        {draft.reminders.length === 0 && <p className="text-xs text-gray-500">No reminders</p>}
+        <div className="space-y-2">
+          {draft.reminders.map((reminder) => (
+            <div key={reminder.id} className="flex gap-2 items-center">
+              <select
+                className={`${inputClassName} w-auto`}
+                value={reminder.kind}
+                onChange={(e) => updateReminder(reminder.id, { kind: e.target.value as Reminder['kind'] })}
+                aria-label="Reminder type"
+              >
+                <option value="before_due" disabled={!draft.dueAt}>
+                  Before due
+                </option>
+                <option value="absolute">At a time</option>
+              </select>
+              {reminder.kind === 'absolute' ? (
+                <input
+                  type="datetime-local"
+                  className={inputClassName}
+                  value={reminder.at}
+                  onChange={(e) => updateReminder(reminder.id, { at: e.target.value })}
+                  aria-label="Reminder time"
+                />
+              ) : (
+                <select
+                  className={inputClassName}
+                  value={reminder.minutesBefore}
+                  onChange={(e) => updateReminder(reminder.id, { minutesBefore: e.target.value })}
+                  aria-label="Remind before due"
+                >
+                  {REMINDER_OFFSETS.map(({ minutes, label }) => (
+                    <option key={minutes} value={String(minutes)}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                onClick={() => update({ reminders: draft.reminders.filter((r) => r.id !== reminder.id) })}
+                className="px-2 text-gray-500 hover:text-red-600"
+                aria-label="Remove reminder"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        {draft.reminders.length > 0 && permission === 'denied' && (
+          <p className="text-xs text-amber-700 mt-1">
+            Browser notifications are blocked, so reminders will appear inside the app instead.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
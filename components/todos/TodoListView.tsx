@@ -0,0 +1,961 @@
+'use client';
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/Dialog';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { useAI, useAISuggestions } from '@/contexts/AIContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { ConflictResolutionDialog } from '@/components/todos/ConflictResolutionDialog';
+import { TodoFieldsEditor, TodoDraft, toDraft, draftToChanges } from '@/components/todos/TodoFieldsEditor';
+import { TodoBadges } from '@/components/todos/TodoBadges';
+import { SubtaskProgress } from '@/components/todos/SubtaskList';
+import { SearchQueryInput } from '@/components/todos/SearchQueryInput';
+import { BulkActionBar } from '@/components/todos/BulkActionBar';
+import { ExportDialog, ExportScope } from '@/components/todos/ExportDialog';
+import { ImportDialog } from '@/components/todos/ImportDialog';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { useLists } from '@/hooks/useLists';
+import { useFetchTodoPage, useKnownTags, useRealtimeRefetch, useTodoPage } from '@/hooks/useTodoPage';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { todoService, Todo } from '@/services/todoService';
+import {
+  filterTodos,
+  orderKey,
+  INBOX_LIST_ID,
+  SORT_OPTIONS,
+  TodoListParams,
+  TodoPage,
+  TodoSort,
+  TodoStatusFilter,
+} from '@/services/todoQuery';
+import { db } from '@/services/db';
+import { listService } from '@/services/listService';
+import { keyBetween } from '@/services/fractionalIndex';
+import { STATUS_ICONS, STATUS_LABELS, todoStatus } from '@/services/todoStatus';
+import { PAGE_SIZES } from '@/services/savedViewService';
+import { calendarHref } from '@/services/calendar';
+import { TodoBatchAction } from '@/services/batchActions';
+import { ApiValidationError } from '@/services/schemas';
+
+interface TodoStats {
+  total: number;
+  completed: number;
+  pending: number;
+  completionRate: number;
+}
+
+// The todo list UI, showing every todo or only those of one list
+export function TodoListView({ listId }: { listId?: string }) {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const { getListName } = useLists();
+  const { getView, saveView } = useSavedViews();
+  const activeView = getView(searchParams.get('view'));
+  const initialSort = searchParams.get('sort') as TodoSort | null;
+  const initialSize = Number(searchParams.get('size'));
+  
+  const [page, setPage] = useState<number>(Number(searchParams.get('page')) || 1);
+  const [searchQuery, setSearchQuery] = useState<string>(searchParams.get('q') ?? '');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>(searchParams.get('q') ?? '');
+  const [filterStatus, setFilterStatus] = useState<TodoStatusFilter>(
+    (searchParams.get('filter') as TodoStatusFilter) || 'all'
+  );
+  const [sortBy, setSortBy] = useState<TodoSort>(
+    initialSort && initialSort in SORT_OPTIONS ? initialSort : 'created_desc'
+  );
+  const [todosPerPage, setTodosPerPage] = useState<number>(PAGE_SIZES.includes(initialSize) ? initialSize : 10);
+  const [tagFilter, setTagFilter] = useState<string | null>(searchParams.get('tag'));
+  const [newTitle, setNewTitle] = useState<string>('');
+  const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
+  const [editDraft, setEditDraft] = useState<TodoDraft>(toDraft());
+  const [isEditOpen, setIsEditOpen] = useState<boolean>(false);
+  const [deleteTodoId, setDeleteTodoId] = useState<number | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState<boolean>(false);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+  // Selected todos by id, kept across pages
+  const [selected, setSelected] = useState<Map<number, Todo>>(new Map());
+  const [selectAllMatching, setSelectAllMatching] = useState<boolean>(false);
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+  const [viewName, setViewName] = useState<string>('');
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [moveAnnouncement, setMoveAnnouncement] = useState<string>('');
+  const [conflictTodoId, setConflictTodoId] = useState<number | null>(null);
+  const [isResolving, setIsResolving] = useState<boolean>(false);
+
+  const { user } = useAuth();
+  const { isOffline, conflicts, resolveConflict } = useOffline();
+  const { emitTodoChange, isConnected: realtimeConnected } = useRealtime();
+  const { isAIEnabled, analyzeProductivity } = useAI();
+  const { suggestions: aiSuggestions, isLoading: aiLoading } = useAISuggestions(newTitle);
+
+  const queryClient = useQueryClient();
+
+  useRealtimeRefetch();
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  // Keep the query in the URL as ?q= so searches can be shared
+  useEffect(() => {
+    const query = new URLSearchParams(searchParams.toString());
+    if (debouncedSearch) query.set('q', debouncedSearch);
+    else query.delete('q');
+    if (query.toString() === searchParams.toString()) return;
+    router.replace(query.size > 0 ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [debouncedSearch, searchParams, pathname, router]);
+
+  const knownTags = useKnownTags();
+
+  const mode = isOffline ? 'offline' : 'online';
+  const listParams = useMemo<TodoListParams>(
+    () => ({
+      page,
+      pageSize: todosPerPage,
+      search: debouncedSearch,
+      status: filterStatus,
+      sortBy,
+      tag: tagFilter ?? undefined,
+      listId,
+    }),
+    [page, todosPerPage, debouncedSearch, filterStatus, sortBy, tagFilter, listId]
+  );
+
+  const fetchTodoPage = useFetchTodoPage();
+  const { data: todoPage, isLoading, isError, error, isPlaceholderData } = useTodoPage(listParams);
+
+  const { data: counts = { total: 0, completed: 0 } } = useQuery({
+    queryKey: ['todos', mode, 'stats', listId ?? 'all'],
+    queryFn: async () => {
+      if (isOffline) {
+        const cached = filterTodos(await db.todos.toArray(), await listService.scope({ listId }));
+        return { total: cached.length, completed: cached.filter((t) => t.completed).length };
+      }
+      return todoService.stats(listId);
+    },
+    staleTime: isOffline ? Infinity : 1000 * 60 * 5,
+  });
+
+  const paginated = todoPage?.todos ?? [];
+  const totalPages = Math.ceil((todoPage?.total ?? 0) / todosPerPage);
+
+  useEffect(() => {
+    if (isOffline || isPlaceholderData || page >= totalPages) return;
+    const nextParams = { ...listParams, page: page + 1 };
+    queryClient.prefetchQuery({
+      queryKey: ['todos', mode, 'list', nextParams],
+      queryFn: () => fetchTodoPage(nextParams),
+    });
+  }, [listParams, page, totalPages, isOffline, isPlaceholderData, mode, queryClient]);
+
+  const { createTodo, updateTodo, toggleCompleted, deleteTodo, batchTodos, mutationError, clearMutationError } =
+    useTodoMutations();
+
+  const clearSelection = () => {
+    setSelected(new Map());
+    setSelectAllMatching(false);
+    setSelectionAnchor(null);
+  };
+
+  // A different filter matches different todos, so the selection starts over
+  useEffect(() => {
+    setSelected(new Map());
+    setSelectAllMatching(false);
+    setSelectionAnchor(null);
+  }, [debouncedSearch, filterStatus, tagFilter, todosPerPage]);
+
+  const allOnPageSelected = paginated.length > 0 && paginated.every((t) => selected.has(t.id));
+  const selectedCount = selectAllMatching ? todoPage?.total ?? 0 : selected.size;
+
+  // Shift-click selects or deselects the whole range from the previous click
+  const handleSelect = (todo: Todo, index: number, shiftKey: boolean): void => {
+    const select = !selected.has(todo.id);
+    const range =
+      shiftKey && selectionAnchor !== null
+        ? paginated.slice(Math.min(selectionAnchor, index), Math.max(selectionAnchor, index) + 1)
+        : [todo];
+    const next = new Map(selected);
+    for (const t of range) {
+      if (select) next.set(t.id, t);
+      else next.delete(t.id);
+    }
+    setSelected(next);
+    setSelectionAnchor(index);
+    setSelectAllMatching(false);
+  };
+
+  const handleSelectPage = (): void => {
+    const next = new Map(selected);
+    for (const t of paginated) {
+      if (allOnPageSelected) next.delete(t.id);
+      else next.set(t.id, t);
+    }
+    setSelected(next);
+    setSelectAllMatching(false);
+  };
+
+  const handleBatchAction = async (action: TodoBatchAction): Promise<void> => {
+    const todos = selectAllMatching
+      ? (await fetchTodoPage({ ...listParams, page: 1, pageSize: Math.max(todoPage?.total ?? 0, 1) })).todos
+      : Array.from(selected.values()).map((todo) => paginated.find((t) => t.id === todo.id) ?? todo);
+    batchTodos.mutate({ todos, action }, { onSuccess: clearSelection });
+  };
+
+  // Every todo matching the current search and filters, or every todo at all
+  const loadExportTodos = async (scope: ExportScope): Promise<Todo[]> => {
+    const params: TodoListParams = scope === 'view' ? { ...listParams, page: 1, pageSize: 0 } : { page: 1, pageSize: 0 };
+    return (await fetchTodoPage(params)).todos;
+  };
+
+  // Move a todo within the current page by giving it an order key between its
+  // new neighbours. They are read from the whole ordered list, not just this
+  // page, so a key written at a page edge lands next to the right todos.
+  const handleMove = async (todo: Todo, to: number): Promise<void> => {
+    const from = paginated.findIndex((t) => t.id === todo.id);
+    if (from === -1 || to < 0 || to >= paginated.length || to === from) return;
+    const reordered = paginated.filter((t) => t.id !== todo.id);
+    reordered.splice(to, 0, todo);
+
+    const ordered = (await fetchTodoPage({ ...listParams, page: 1, pageSize: 0 })).todos.filter(
+      (t) => t.id !== todo.id
+    );
+    const index = (page - 1) * todosPerPage + to;
+    const above = ordered[index - 1];
+    const below = ordered[index];
+
+    let position: string;
+    try {
+      position = keyBetween(above ? orderKey(above) : null, below ? orderKey(below) : null);
+    } catch (error) {
+      // Neighbours that share a key leave no gap; the list refreshes with the server's order
+      console.error('Error ordering todo:', error);
+      queryClient.invalidateQueries({ queryKey: ['todos'] });
+      return;
+    }
+
+    queryClient.setQueryData<TodoPage>(['todos', mode, 'list', listParams], (old) =>
+      old ? { ...old, todos: reordered.map((t) => (t.id === todo.id ? { ...t, position } : t)) } : old
+    );
+    updateTodo.mutate({ id: todo.id, changes: { position } });
+    setMoveAnnouncement(`Moved ${todo.todo} to position ${index + 1}`);
+    requestAnimationFrame(() => document.getElementById(`move-handle-${todo.id}`)?.focus());
+  };
+
+  const handleEdit = (todo: Todo): void => {
+    setEditingTodo(todo);
+    setEditDraft(toDraft(todo));
+    setIsEditOpen(true);
+  };
+
+  const handleDelete = (todo: Todo): void => {
+    setDeleteTodoId(todo.id);
+    setIsDeleteOpen(true);
+  };
+
+  const handleResolveConflict = async (resolved: Todo): Promise<void> => {
+    if (conflictTodoId === null) return;
+    setIsResolving(true);
+    try {
+      const result = await resolveConflict(conflictTodoId, resolved);
+      if (realtimeConnected && !isOffline) emitTodoChange('update', result);
+      setConflictTodoId(null);
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const activeConflict = conflicts.find((c) => c.todoId === conflictTodoId) ?? null;
+
+  const handleAISuggestionClick = (suggestion: string): void => {
+    setNewTitle(suggestion);
+  };
+
+  const [productivityAnalysis, setProductivityAnalysis] = useState<string>('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const handleProductivityAnalysis = async () => {
+    if (!isAIEnabled) return;
+    setIsAnalyzing(true);
+    try {
+      const analysis = await analyzeProductivity(filterTodos(await db.todos.toArray(), {}));
+      setProductivityAnalysis(analysis);
+    } catch (error) {
+      console.error('Error analyzing productivity:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const stats: TodoStats = {
+    total: counts.total,
+    completed: counts.completed,
+    pending: counts.total - counts.completed,
+    completionRate: counts.total > 0 ? Math.round((counts.completed / counts.total) * 100) : 0,
+  };
+
+  return (
+    <main className="relative z-10 p-4 min-h-screen pb-32 bg-pink-950 text-white">
+      <section className="mb-6 max-w-6xl mx-auto">
+        {listId && <h1 className="text-2xl font-bold mb-4">📂 {getListName(listId) ?? 'List'}</h1>}
+        {!listId && activeView && (
+          <h1 className="text-2xl font-bold mb-4">
+            {activeView.icon} {activeView.name}
+          </h1>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white/10 backdrop-blur rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold">{stats.total}</div>
+            <div className="text-pink-200 text-sm">Total Todos</div>
+          </div>
+          <div className="bg-green-500/20 backdrop-blur rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold">{stats.completed}</div>
+            <div className="text-green-200 text-sm">Completed</div>
+          </div>
+          <div className="bg-amber-500/20 backdrop-blur rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold">{stats.pending}</div>
+            <div className="text-amber-200 text-sm">Pending</div>
+          </div>
+          <div className="bg-purple-500/20 backdrop-blur rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold">{stats.completionRate}%</div>
+            <div className="text-purple-200 text-sm">Success Rate</div>
+          </div>
+        </div>
+
+        {isAIEnabled && (
+          <div className="bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur rounded-lg p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold flex items-center gap-2">AI Productivity Insights</h3>
+              <Button
+                onClick={handleProductivityAnalysis}
+                disabled={isAnalyzing || stats.total === 0}
+                variant="outline"
+                size="sm"
+                className="border-purple-400 text-purple-200 hover:bg-purple-800/30"
+              >
+                {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+              </Button>
+            </div>
+            {productivityAnalysis ? (
+              <div className="text-sm text-purple-100 whitespace-pre-line bg-black/20 rounded p-3">
+                {productivityAnalysis}
+              </div>
+            ) : (
+              <p className="text-purple-200 text-sm">
+                Get AI-powered insights about your productivity patterns and suggestions for improvement.
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="mb-6 max-w-6xl mx-auto flex flex-col lg:flex-row justify-between gap-6">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap items-stretch sm:items-center gap-3 bg-white p-4 rounded-xl shadow-md w-full max-w-full lg:w-1/2">
+          <SearchQueryInput
+            value={searchQuery}
+            onChange={(value) => {
+              setSearchQuery(value);
+              setPage(1);
+            }}
+            tags={knownTags}
+          />
+          <select
+            value={filterStatus}
+            onChange={(e) => {
+              setFilterStatus(e.target.value as TodoStatusFilter);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800 w-full sm:w-auto"
+          >
+            <option value="all">All</option>
+            <option value="completed">Completed</option>
+            <option value="incomplete">Incomplete</option>
+            <option value="pending">Pending Sync</option>
+            <option value="overdue">Overdue</option>
+            <option value="due_today">Due Today</option>
+            <option value="high_priority">High Priority</option>
+          </select>
+          <select
+            value={sortBy}
+            onChange={(e) => {
+              setSortBy(e.target.value as TodoSort);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800 w-full sm:w-auto"
+          >
+            <option value="created_desc">Newest First</option>
+            <option value="created_asc">Oldest First</option>
+            <option value="title_asc">A-Z</option>
+            <option value="title_desc">Z-A</option>
+            <option value="status">By Status</option>
+            <option value="due_asc">Due Date</option>
+            <option value="priority_desc">Priority</option>
+            <option value="manual">Manual</option>
+          </select>
+          <select
+            value={todosPerPage}
+            onChange={(e) => {
+              setTodosPerPage(Number(e.target.value));
+              setPage(1);
+            }}
+            aria-label="Todos per page"
+            className="px-4 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800 w-full sm:w-auto"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+          {!listId && (
+            <Button
+              onClick={() => {
+                setViewName('');
+                setIsSaveViewOpen(true);
+              }}
+              variant="outline"
+              className="text-pink-800 border border-pink-700 hover:bg-pink-200 w-full sm:w-auto"
+            >
+              🔖 Save view
+            </Button>
+          )}
+          <Link
+            href={calendarHref({ search: debouncedSearch, status: filterStatus, tag: tagFilter ?? undefined, listId })}
+            className="px-4 py-2 rounded-md text-center text-pink-800 border border-pink-700 hover:bg-pink-200 w-full sm:w-auto text-sm font-medium"
+          >
+            📅 Calendar
+          </Link>
+          <Button
+            onClick={() => setIsExportOpen(true)}
+            variant="outline"
+            className="text-pink-800 border border-pink-700 hover:bg-pink-200 w-full sm:w-auto"
+          >
+            ⬇️ Export
+          </Button>
+          <Button
+            onClick={() => setIsImportOpen(true)}
+            variant="outline"
+            className="text-pink-800 border border-pink-700 hover:bg-pink-200 w-full sm:w-auto"
+          >
+            ⬆️ Import
+          </Button>
+          {tagFilter && (
+            <button
+              onClick={() => {
+                setTagFilter(null);
+                setPage(1);
+              }}
+              className="px-3 py-1 rounded-full bg-pink-200 text-pink-900 text-sm hover:bg-pink-300"
+              aria-label={`Clear tag filter ${tagFilter}`}
+            >
+              #{tagFilter} ✕
+            </button>
+          )}
+        </div>
+
+        <div className="relative w-full max-w-full lg:w-1/2">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!newTitle.trim()) return;
+              createTodo.mutate({
+                todo: newTitle,
+                completed: false,
+                userId: user?.id ?? 1,
+                listId: listId && listId !== INBOX_LIST_ID ? listId : undefined,
+              });
+              setNewTitle('');
+            }}
+            className="flex flex-col sm:flex-row gap-3 bg-white p-4 rounded-xl shadow-md"
+          >
+            <div className="relative flex-1">
+              <input
+                type="text"
+                placeholder={isAIEnabled ? 'Enter a todo... (AI suggestions enabled)' : 'Enter a todo...'}
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                className="w-full px-4 py-2 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800"
+              />
+              {isAIEnabled && (
+                <div className="absolute right-2 top-2 text-purple-500 flex items-center gap-1">
+                  {aiLoading && (
+                    <div className="animate-spin w-3 h-3 border border-purple-400 border-t-transparent rounded-full"></div>
+                  )}
+                  <span className="text-sm">🤖</span>
+                </div>
+              )}
+            </div>
+            <Button
+              type="submit"
+              variant="default"
+              size="default"
+              disabled={createTodo.isPending}
+              className="bg-pink-800 text-white px-4 py-2 rounded-md hover:bg-pink-900 focus:outline-none focus:ring-2 focus:ring-pink-500 w-full sm:w-auto"
+            >
+              {createTodo.isPending ? 'Adding...' : 'Add Todo'}
+            </Button>
+          </form>
+
+          {aiSuggestions.length > 0 && (
+            <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-lg shadow-lg border border-pink-200 z-50">
+              <div className="p-2">
+                <div className="text-xs text-purple-600 font-medium mb-2 flex items-center gap-1">
+                  <span>🤖</span> AI Suggestions
+                  {aiLoading && (
+                    <div className="animate-spin w-3 h-3 border border-purple-400 border-t-transparent rounded-full ml-1"></div>
+                  )}
+                </div>
+                {aiSuggestions.map((suggestion, index) => (
+                  <button
+                    key={index}
+                    onClick={() => handleAISuggestionClick(suggestion)}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-800 hover:bg-pink-50 rounded transition-colors border-b border-gray-100 last:border-b-0"
+                  >
+                    <div className="font-medium">{suggestion}</div>
+                    <div className="text-xs text-gray-500 mt-1">AI-generated suggestion</div>
+                  </button>
+                ))}
+                <div className="pt-2 mt-2 border-t border-gray-100">
+                  <Link
+                    href="/ai-chat?context=todo-suggestions"
+                    className="block w-full text-center px-3 py-2 text-xs text-purple-600 hover:bg-purple-50 rounded transition-colors"
+                  >
+                    Need more help? Chat with AI →
+                  </Link>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {mutationError && (
+        <div
+          role="alert"
+          className="max-w-4xl mx-auto mb-4 px-4 py-3 rounded-lg bg-red-100 border border-red-300 text-red-800 flex items-start justify-between gap-3"
+        >
+          <span className="text-sm">⚠️ {mutationError}</span>
+          <button onClick={clearMutationError} className="text-red-600 hover:text-red-800 text-sm" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <section>
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+            <p>Loading your todos...</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-400 mb-4">
+              {error instanceof ApiValidationError
+                ? 'The server returned todos in an unexpected format. Please try again later.'
+                : `Error loading todos: ${(error as any)?.message}`}
+            </p>
+            <Button
+              onClick={() => queryClient.invalidateQueries({ queryKey: ['todos'] })}
+              variant="outline"
+              size="default"
+              className="bg-white text-pink-950"
+            >
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="max-w-4xl mx-auto px-2">
+              {selectedCount > 0 && (
+                <BulkActionBar
+                  count={selectedCount}
+                  isPending={batchTodos.isPending}
+                  isOffline={isOffline}
+                  onAction={handleBatchAction}
+                  onClear={clearSelection}
+                />
+              )}
+              {paginated.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-pink-100">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      onChange={handleSelectPage}
+                      className="h-4 w-4 accent-pink-300"
+                    />
+                    Select page
+                  </label>
+                  {allOnPageSelected && (todoPage?.total ?? 0) > paginated.length && (
+                    selectAllMatching ? (
+                      <span>All {todoPage?.total} matching todos are selected.</span>
+                    ) : (
+                      <button onClick={() => setSelectAllMatching(true)} className="underline hover:text-white">
+                        Select all {todoPage?.total} matching todos
+                      </button>
+                    )
+                  )}
+                  {sortBy === 'manual' && (
+                    <span className="sm:ml-auto text-pink-200">Drag ⠿ or press Alt+↑ / Alt+↓ to reorder</span>
+                  )}
+                </div>
+              )}
+            </div>
+            <p className="sr-only" aria-live="polite">
+              {moveAnnouncement}
+            </p>
+            <ul className="space-y-3 max-w-4xl mx-auto px-2">
+              {paginated.map((todo: Todo, index: number) => (
+                <li
+                  key={todo.id}
+                  draggable={sortBy === 'manual'}
+                  onDragStart={() => setDraggedId(todo.id)}
+                  onDragOver={(e) => {
+                    if (draggedId === null) return;
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const dragged = paginated.find((t) => t.id === draggedId);
+                    if (dragged) handleMove(dragged, index);
+                    setDraggedId(null);
+                    setDropIndex(null);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropIndex(null);
+                  }}
+                  // Alt+Up/Down moves the todo from anywhere in its row
+                  onKeyDown={(e) => {
+                    if (sortBy !== 'manual' || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+                    e.preventDefault();
+                    handleMove(todo, index + (e.key === 'ArrowUp' ? -1 : 1));
+                  }}
+                  className={`bg-pink-100 border rounded-lg p-4 transition-all duration-200 hover:shadow-md ${
+                    todo.syncStatus === 'pending'
+                      ? 'border-amber-400 bg-amber-50'
+                      : todo.syncStatus === 'conflict'
+                      ? 'border-red-400 bg-red-50'
+                      : 'border-pink-300'
+                  } ${draggedId === todo.id ? 'opacity-50' : ''} ${
+                    dropIndex === index && draggedId !== todo.id ? 'ring-2 ring-pink-400' : ''
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                    <div className="flex items-start sm:items-center gap-3 flex-1 min-w-0">
+                      {sortBy === 'manual' && (
+                        <button
+                          id={`move-handle-${todo.id}`}
+                          type="button"
+                          className="shrink-0 cursor-grab px-1 text-pink-700 hover:text-pink-900 focus:outline focus:ring"
+                          aria-label={`Move ${todo.todo}. Use Alt+Up and Alt+Down to reorder.`}
+                          title="Drag or press Alt+Up / Alt+Down to reorder"
+                        >
+                          ⠿
+                        </button>
+                      )}
+                      <input
+                        type="checkbox"
+                        checked={selectAllMatching || selected.has(todo.id)}
+                        // onClick rather than onChange to see whether shift was held
+                        onClick={(e) => handleSelect(todo, index, e.shiftKey)}
+                        readOnly
+                        className="h-5 w-5 accent-purple-600 shrink-0"
+                        aria-label={`Select ${todo.todo}`}
+                      />
+                      <input
+                        type="checkbox"
+                        checked={todo.completed}
+                        onChange={() => toggleCompleted.mutate({ id: todo.id, changes: { completed: !todo.completed } })}
+                        aria-label={`Mark ${todo.todo} ${todo.completed ? 'incomplete' : 'complete'}`}
+                        className="h-4 w-4 accent-pink-800 focus:outline focus:ring shrink-0"
+                      />
+                      <button
+                        onClick={() => updateTodo.mutate({ id: todo.id, changes: { starred: !todo.starred } })}
+                        className={`shrink-0 text-lg leading-none ${todo.starred ? '' : 'opacity-30 hover:opacity-70'}`}
+                        aria-label={todo.starred ? `Unstar ${todo.todo}` : `Star ${todo.todo}`}
+                        aria-pressed={!!todo.starred}
+                      >
+                        ⭐
+                      </button>
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/todos/${todo.id}`}
+                          className="text-pink-800 underline hover:text-pink-900 focus:outline focus:ring break-words font-medium"
+                        >
+                          {todo.todo}
+                        </Link>
+                        <div className="flex flex-wrap items-center gap-2 mt-1">
+                          <span
+                            className={`text-sm px-2 py-1 rounded-full ${
+                              todo.completed
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-amber-100 text-amber-800'
+                            }`}
+                          >
+                            {todo.completed
+                              ? '✅ Completed'
+                              : todoStatus(todo) !== 'todo'
+                              ? `${STATUS_ICONS[todoStatus(todo)]} ${STATUS_LABELS[todoStatus(todo)]}`
+                              : '⏳ Pending'}
+                          </span>
+                          {todo.syncStatus === 'pending' && (
+                            <span className="text-xs px-2 py-1 bg-amber-100 text-amber-700 rounded-full">
+                              🔄 Syncing
+                            </span>
+                          )}
+                          {todo.syncStatus === 'conflict' && (
+                            <button
+                              onClick={() => setConflictTodoId(todo.id)}
+                              className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full hover:bg-red-200"
+                            >
+                              ⚠️ Conflict — Resolve
+                            </button>
+                          )}
+                          <SubtaskProgress todo={todo} />
+                          <TodoBadges
+                            todo={todo}
+                            onTagClick={(tag) => {
+                              setTagFilter(tag);
+                              setPage(1);
+                            }}
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2 flex-wrap justify-end">
+                      {isAIEnabled && (
+                        <Link
+                          href="/ai-chat?context=todo"
+                          className="p-2 text-purple-600 hover:bg-purple-100 rounded transition-colors"
+                          title="AI Chat about this todo"
+                        >
+                          🤖
+                        </Link>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        onClick={() => handleEdit(todo)}
+                        className="text-pink-800 border border-pink-700 hover:bg-pink-200"
+                      >
+                        ✏️
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="destructive"
+                        onClick={() => handleDelete(todo)}
+                        className="bg-pink-800 text-white hover:bg-pink-900"
+                      >
+                        🗑️
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {totalPages > 1 && (
+              <nav className="relative z-20 flex justify-center items-center gap-2 mt-8 flex-wrap px-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  ← Prev
+                </Button>
+
+                <div className="flex items-center gap-1">
+                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                    const pageNum = page <= 3 ? i + 1 : page - 2 + i;
+                    if (pageNum > totalPages) return null;
+
+                    return (
+                      <Button
+                        key={pageNum}
+                        size="sm"
+                        variant={page === pageNum ? 'default' : 'outline'}
+                        className={`min-w-[40px] ${
+                          page === pageNum
+                            ? 'bg-pink-800 text-white'
+                            : 'bg-white text-pink-950 border border-pink-500 hover:bg-pink-100'
+                        }`}
+                        onClick={() => setPage(pageNum)}
+                      >
+                        {pageNum}
+                      </Button>
+                    );
+                  })}
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next →
+                </Button>
+              </nav>
+            )}
+          </>
+        )}
+      </section>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto max-w-[95vw] sm:max-w-lg">
+          <DialogTitle className="text-lg font-semibold mb-4">Edit Todo</DialogTitle>
+          <form
+            className="space-y-4 mt-4 w-full max-w-full"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!editingTodo || !editDraft.todo.trim()) return;
+              updateTodo.mutate({ id: editingTodo.id, changes: draftToChanges(editDraft) });
+              setIsEditOpen(false);
+              setEditingTodo(null);
+            }}
+          >
+            <TodoFieldsEditor draft={editDraft} onChange={setEditDraft} />
+            <div className="flex flex-col sm:flex-row justify-end gap-2 w-full">
+              <DialogClose asChild>
+                <Button variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button
+                type="submit"
+                variant="default"
+                size="default"
+                disabled={updateTodo.isPending}
+                className="bg-pink-600 text-white hover:bg-pink-700 w-full sm:w-auto"
+              >
+                {updateTodo.isPending ? 'Updating...' : 'Update'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConflictResolutionDialog
+        conflict={activeConflict}
+        isResolving={isResolving}
+        onOpenChange={(open) => {
+          if (!open) setConflictTodoId(null);
+        }}
+        onResolve={handleResolveConflict}
+      />
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        viewCount={todoPage?.total ?? 0}
+        loadTodos={loadExportTodos}
+      />
+
+      <ImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        listId={listId && listId !== INBOX_LIST_ID ? listId : undefined}
+      />
+
+      <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+        <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-md">
+          <DialogTitle className="text-lg font-semibold text-pink-950">Save View</DialogTitle>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!viewName.trim()) return;
+              saveView.mutate({
+                name: viewName,
+                search: searchQuery,
+                status: filterStatus,
+                sortBy,
+                pageSize: todosPerPage,
+                tag: tagFilter ?? undefined,
+              });
+              setIsSaveViewOpen(false);
+            }}
+          >
+            <p className="text-gray-700 text-sm my-3">
+              Saves the current search, filter, tag, sort and page size so you can return to them from the sidebar.
+            </p>
+            <input
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="View name"
+              className="border border-pink-500 rounded px-3 py-2 w-full text-gray-800 focus:outline-none focus:ring-2 focus:ring-pink-500"
+              autoFocus
+              required
+            />
+            <div className="flex justify-end gap-2 mt-4 flex-wrap">
+              <DialogClose asChild>
+                <Button type="button" variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto">
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-md">
+          <DialogTitle className="text-lg font-semibold">Move to Trash?</DialogTitle>
+          <p className="text-gray-700 my-3">
+            This todo will be moved to the trash, where you can restore it until it is deleted for good. You can
+            also undo this with Ctrl+Z or the Undo button.
+            {isOffline && (
+              <span className="block mt-2 text-amber-600 text-sm">
+                You're offline. This will be synced when you reconnect.
+              </span>
+            )}
+          </p>
+          <div className="flex justify-end gap-2 mt-4 flex-wrap">
+            <DialogClose asChild>
+              <Button variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button
+              onClick={() => {
+                if (deleteTodoId) deleteTodo.mutate(deleteTodoId);
+                setIsDeleteOpen(false);
+                setDeleteTodoId(null);
+              }}
+              variant="default"
+              size="default"
+              disabled={deleteTodo.isPending}
+              className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+            >
+              {deleteTodo.isPending ? 'Moving...' : 'Move to Trash'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+'use client';
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle, DialogClose } from '@/components/ui/Dialog';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+import { useLists } from '@/hooks/useLists';
+import { useTodoPage } from '@/hooks/useTodoPage';
+import { Todo } from '@/services/todoService';
+import { TodoListParams } from '@/services/todoQuery';
+import { trashService, DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '@/services/trashService';
+import { ApiValidationError } from '@/services/schemas';
+
+const TRASH_PAGE_SIZE = 25;
+
+// Trashed todos, most recently deleted first, with restore and permanent delete
+export function TrashView() {
+  const { isOffline } = useOffline();
+  const { getListName } = useLists();
+  const { restoreTodo, purgeTodo, mutationError, clearMutationError } = useTodoMutations();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState<number>(1);
+  const [retentionDays, setRetentionDays] = useState<number>(DEFAULT_TRASH_RETENTION_DAYS);
+  const [purgeTarget, setPurgeTarget] = useState<Todo | null>(null);
+
+  const { data: trashedHere = new Map<number, string>() } = useQuery({
+    queryKey: ['todos', 'trashedHere'],
+    queryFn: () => trashService.trashedHere(),
+  });
+
+  // The retention setting lives in localStorage, which only exists in the browser
+  useEffect(() => {
+    setRetentionDays(trashService.getRetentionDays());
+  }, []);
+
+  const params: TodoListParams = { page, pageSize: TRASH_PAGE_SIZE, trashed: true, sortBy: 'deleted_desc' };
+
+  const { data: trashPage, isLoading, isError, error } = useTodoPage(params);
+
+  const trashed = trashPage?.todos ?? [];
+  const totalPages = Math.ceil((trashPage?.total ?? 0) / TRASH_PAGE_SIZE);
+
+  // Step back when restoring or purging empties the last page
+  useEffect(() => {
+    if (page > 1 && totalPages > 0 && page > totalPages) setPage(totalPages);
+  }, [page, totalPages]);
+
+  const handleRetentionChange = (days: number) => {
+    trashService.setRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  return (
+    <main className="relative z-10 p-4 min-h-screen pb-32 bg-pink-950 text-white">
+      <section className="mb-6 max-w-4xl mx-auto px-2">
+        <h1 className="text-2xl font-bold mb-2">🗑️ Trash</h1>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-pink-100">
+          <p className="flex-1">
+            Deleted todos stay here until you restore them. Those deleted on this device are deleted for good after the retention period set here.
+          </p>
+          <label className="flex items-center gap-2">
+            Keep for
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="px-3 py-1 border border-pink-400 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-800"
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      {mutationError && (
+        <div
+          role="alert"
+          className="max-w-4xl mx-auto mb-4 px-4 py-3 rounded-lg bg-red-100 border border-red-300 text-red-800 flex items-start justify-between gap-3"
+        >
+          <span className="text-sm">⚠️ {mutationError}</span>
+          <button onClick={clearMutationError} className="text-red-600 hover:text-red-800 text-sm" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <section className="max-w-4xl mx-auto px-2">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+            <p>Loading the trash...</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-400 mb-4">
+              {error instanceof ApiValidationError
+                ? 'The server returned todos in an unexpected format. Please try again later.'
+                : `Error loading the trash: ${(error as any)?.message}`}
+            </p>
+            <Button
+              onClick={() => queryClient.invalidateQueries({ queryKey: ['todos'] })}
+              variant="outline"
+              size="default"
+              className="bg-white text-pink-950"
+            >
+              Retry
+            </Button>
+          </div>
+        ) : trashed.length === 0 ? (
+          <p className="text-center py-12 text-pink-200">The trash is empty.</p>
+        ) : (
+          <>
+            <ul className="space-y-3">
+              {trashed.map((todo) => {
+                const listName = todo.listId ? getListName(todo.listId) : null;
+                const daysLeft = trashService.daysUntilPurge(todo, retentionDays);
+
+                return (
+                  <li
+                    key={todo.id}
+                    className={`bg-pink-100 border rounded-lg p-4 ${
+                      todo.syncStatus === 'pending' ? 'border-amber-400 bg-amber-50' : 'border-pink-300'
+                    }`}
+                  >
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/todos/${todo.id}`}
+                          className="text-pink-800 underline hover:text-pink-900 focus:outline focus:ring break-words font-medium"
+                        >
+                          {todo.todo}
+                        </Link>
+                        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-600">
+                          {listName && (
+                            <span className="px-2 py-1 rounded-full bg-white border border-pink-300 text-pink-900">
+                              📂 {listName}
+                            </span>
+                          )}
+                          <span>Deleted {new Date(todo.deletedAt!).toLocaleString()}</span>
+                          {trashService.isPurgedHere(todo, trashedHere) ? (
+                            <span className={daysLeft <= 1 ? 'text-red-600' : ''}>
+                              · {daysLeft === 0 ? 'Deleted for good soon' : `Deleted for good in ${daysLeft} days`}
+                            </span>
+                          ) : (
+                            <span>· Deleted on another device</span>
+                          )}
+                          {todo.syncStatus === 'pending' && (
+                            <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full">🔄 Syncing</span>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex gap-2 flex-wrap justify-end">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => restoreTodo.mutate(todo.id)}
+                          className="text-pink-800 border border-pink-700 hover:bg-pink-200"
+                        >
+                          ♻️ Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setPurgeTarget(todo)}
+                          className="bg-pink-800 text-white hover:bg-pink-900"
+                        >
+                          Delete forever
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {totalPages > 1 && (
+              <nav className="flex justify-center items-center gap-3 mt-8">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  ← Prev
+                </Button>
+                <span className="text-sm text-pink-100">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white text-pink-950 border border-pink-500 hover:bg-pink-100"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next →
+                </Button>
+              </nav>
+            )}
+          </>
+        )}
+      </section>
+
+      <Dialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent className="z-50 bg-white rounded-lg p-6 shadow-lg max-h-[90vh] overflow-y-auto w-full max-w-[95vw] sm:max-w-md">
+          <DialogTitle className="text-lg font-semibold">Delete Forever?</DialogTitle>
+          <p className="text-gray-700 my-3">
+            &ldquo;{purgeTarget?.todo}&rdquo; will be deleted for good. This cannot be undone.
+            {isOffline && (
+              <span className="block mt-2 text-amber-600 text-sm">
+                You're offline. It will be deleted when you reconnect.
+              </span>
+            )}
+          </p>
+          <div className="flex justify-end gap-2 mt-4 flex-wrap">
+            <DialogClose asChild>
+              <Button variant="outline" size="default" className="text-pink-950 w-full sm:w-auto">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button
+              onClick={() => {
+                if (purgeTarget) purgeTodo.mutate(purgeTarget.id);
+                setPurgeTarget(null);
+              }}
+              variant="default"
+              size="default"
+              disabled={purgeTodo.isPending}
+              className="bg-pink-800 text-white hover:bg-pink-900 w-full sm:w-auto"
+            >
+              {purgeTodo.isPending ? 'Deleting...' : 'Delete Forever'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
\ No newline at end of file
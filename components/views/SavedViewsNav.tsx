@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { SavedView, viewHref } from '@/services/savedViewService';
+
+// Built-in and saved views, shown above the lists in the sidebar
+export const SavedViewsNav: React.FC = () => {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { views, deleteView } = useSavedViews();
+
+  const activeId = pathname === '/' ? searchParams.get('view') : null;
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(`Delete the "${view.name}" view?`)) return;
+    deleteView.mutate(view.id);
+  };
+
+  return (
+    <nav className="px-4 pt-4 lg:pr-0 flex gap-2 overflow-x-auto lg:flex-col lg:overflow-visible" aria-label="Views">
+      {views.map((view) => (
+        <div key={view.id} className="group flex items-center gap-1">
+          <Link
+            href={viewHref(view)}
+            className={`flex-1 min-w-0 px-3 py-2 rounded-lg text-sm whitespace-nowrap truncate transition-colors ${
+              activeId === view.id ? 'bg-pink-200 text-pink-950' : 'text-pink-100 hover:bg-pink-900'
+            }`}
+          >
+            {view.icon} {view.name}
+          </Link>
+          {!view.builtIn && (
+            <button
+              onClick={() => handleDelete(view)}
+              className="px-1 text-pink-300 hover:text-white text-xs lg:opacity-0 lg:group-hover:opacity-100 focus:opacity-100"
+              aria-label={`Delete ${view.name} view`}
+            >
+              🗑️
+            </button>
+          )}
+        </div>
+      ))}
+    </nav>
+  );
+};
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { authService, User, LoginCredentials, SignupCredentials } from '../services/authService';
+import { db } from '../services/db';
 
 interface AuthContextType {
   user: User | null;
@@ -69,8 +70,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     authService.logout();
     setUser(null);
     // Clear all local data
-    localStorage.removeItem('todos');
-    localStorage.removeItem('ai-chat-sessions');
+    db.clearAll().catch((error) => console.error('Error clearing local data:', error));
   };
 
   const updateProfile = async (updates: Partial<User>) => {
@@ -1,23 +1,93 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { syncService, NewSyncQueueItem } from '../services/syncService';
+import { SyncQueueItem, TodoConflict } from '../services/db';
+import { todoService, Todo } from '../services/todoService';
 
 interface OfflineContextType {
   isOffline: boolean;
-  syncQueue: any[];
-  addToSyncQueue: (item: any) => void;
-  removeFromSyncQueue: (id: string) => void;
+  isSyncing: boolean;
+  // Items waiting to be replayed
+  syncQueue: SyncQueueItem[];
+  // Items the backend rejected, kept until the user discards them
+  failedSync: SyncQueueItem[];
+  conflicts: TodoConflict[];
+  addToSyncQueue: (item: NewSyncQueueItem) => void;
+  removeFromSyncQueue: (id: number) => void;
+  discardFailedSync: (item: SyncQueueItem) => Promise<void>;
   processSyncQueue: () => Promise<void>;
+  resolveConflict: (todoId: number, resolved: Todo) => Promise<Todo>;
 }
 
 const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
 
 export const OfflineProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
-  const [syncQueue, setSyncQueue] = useState<any[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncQueue, setSyncQueue] = useState<SyncQueueItem[]>([]);
+  const [failedSync, setFailedSync] = useState<SyncQueueItem[]>([]);
+  const [conflicts, setConflicts] = useState<TodoConflict[]>([]);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refreshQueue = useCallback(async () => {
+    const queue = await syncService.getQueue();
+    setSyncQueue(queue.filter((item) => !item.failedAt));
+    setFailedSync(queue.filter((item) => item.failedAt));
+    setConflicts(await syncService.getConflicts());
+  }, []);
+
+  const processSyncQueue = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+
+    setIsSyncing(true);
+    try {
+      const result = await syncService.process((item) => {
+        setSyncQueue(prev => prev.filter(queued => queued.id !== item.id));
+      });
+
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['todos'] });
+        queryClient.invalidateQueries({ queryKey: ['todo'] });
+      }
+
+      // Retry with backoff when an item failed
+      if (result.nextRetryAt) {
+        retryTimer.current = setTimeout(() => {
+          processSyncQueue();
+        }, Math.max(result.nextRetryAt - Date.now(), 0));
+      }
+    } catch (error) {
+      console.error('Error processing sync queue:', error);
+    } finally {
+      await refreshQueue();
+      setIsSyncing(false);
+    }
+  }, [queryClient, refreshQueue]);
+
+  // Load the persisted queue and replay anything left from a previous session
+  useEffect(() => {
+    refreshQueue().then(() => {
+      if (navigator.onLine) processSyncQueue();
+    });
+
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [refreshQueue, processSyncQueue]);
 
   useEffect(() => {
-    const handleOnline = () => setIsOffline(false);
+    const handleOnline = () => {
+      setIsOffline(false);
+      processSyncQueue();
+    };
     const handleOffline = () => setIsOffline(true);
 
     window.addEventListener('online', handleOnline);
@@ -27,27 +97,61 @@ export const OfflineProvider: React.FC<{ children: ReactNode }> = ({ children })
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [processSyncQueue]);
+
+  // Writes that fell back to the local backend are queued there. Show them,
+  // and replay them once a backend that stores todos is serving again.
+  useEffect(() => {
+    let wasPersistent = todoService.getStatus().active.persistent;
+    return todoService.subscribe(() => {
+      const { persistent } = todoService.getStatus().active;
+      if (!persistent || !wasPersistent) refreshQueue();
+      if (persistent && !wasPersistent && navigator.onLine) processSyncQueue();
+      wasPersistent = persistent;
+    });
+  }, [refreshQueue, processSyncQueue]);
+
+  const addToSyncQueue = (item: NewSyncQueueItem) => {
+    syncService
+      .enqueue(item)
+      .then((queued) => setSyncQueue(prev => [...prev, queued]))
+      .catch((error) => console.error('Error adding to sync queue:', error));
+  };
 
-  const addToSyncQueue = (item: any) => {
-    setSyncQueue(prev => [...prev, { ...item, id: Date.now().toString() }]);
+  const resolveConflict = async (todoId: number, resolved: Todo): Promise<Todo> => {
+    const result = await syncService.resolveConflict(todoId, resolved);
+    await refreshQueue();
+    queryClient.invalidateQueries({ queryKey: ['todos'] });
+    queryClient.invalidateQueries({ queryKey: ['todo', todoId] });
+    return result;
   };
 
-  const removeFromSyncQueue = (id: string) => {
-    setSyncQueue(prev => prev.filter(item => item.id !== id));
+  const discardFailedSync = async (item: SyncQueueItem) => {
+    await syncService.discard(item);
+    await refreshQueue();
+    queryClient.invalidateQueries({ queryKey: ['todos'] });
+    queryClient.invalidateQueries({ queryKey: ['todo'] });
   };
 
-  const processSyncQueue = async () => {
-    console.log('Processing sync queue:', syncQueue);
+  const removeFromSyncQueue = (id: number) => {
+    syncService
+      .remove(id)
+      .then(() => setSyncQueue(prev => prev.filter(item => item.id !== id)))
+      .catch((error) => console.error('Error removing from sync queue:', error));
   };
 
   return (
     <OfflineContext.Provider value={{
       isOffline,
+      isSyncing,
       syncQueue,
+      failedSync,
+      conflicts,
       addToSyncQueue,
       removeFromSyncQueue,
+      discardFailedSync,
       processSyncQueue,
+      resolveConflict,
     }}>
       {children}
     </OfflineContext.Provider>
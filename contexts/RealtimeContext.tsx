@@ -1,7 +1,10 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { realtimeService, TodoUpdate, UserPresence, CursorPosition } from '../services/realtimeService';
+import { db } from '../services/db';
+import { activityService } from '../services/activityService';
+import type { Todo } from '../services/todoService';
 import { useAuth } from './AuthContext';
 
 interface RealtimeContextType {
@@ -30,6 +33,27 @@ export const RealtimeProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [cursors, setCursors] = useState<Map<string, CursorPosition>>(new Map());
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
 
+  // The listeners are registered once, so they read the current user from a ref
+  const userIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    userIdRef.current = user?.id?.toString();
+  }, [user]);
+
+  // Our own changes are recorded by the mutations that made them
+  const isFromOtherUser = (data: TodoUpdate) => typeof data.todo?.id === 'number' && data.userId !== userIdRef.current;
+  const actorOf = (data: TodoUpdate) => ({ id: data.userId, name: data.userName });
+  const logActivityError = (error: unknown) => console.error('Error recording todo activity:', error);
+
+  // Compare another user's change with the cached copy for the activity
+  // timeline, then cache the new copy unless it holds unsynced local edits
+  const recordRemoteChange = async (data: TodoUpdate, apply: (cached: Todo) => Todo) => {
+    const cached = await db.todos.get(data.todo.id);
+    if (!cached) return;
+    const next = apply(cached);
+    await activityService.recordChange(cached, next, actorOf(data), 'remote', data.timestamp);
+    if (cached.syncStatus !== 'pending' && cached.syncStatus !== 'conflict') await db.putTodo(next);
+  };
+
   // Connect when authenticated
   useEffect(() => {
     if (isAuthenticated) {
@@ -51,15 +75,34 @@ export const RealtimeProvider: React.FC<{ children: ReactNode }> = ({ children }
     });
 
     // Todo events
-    realtimeService.on('todo:created', (data: TodoUpdate) => {
+    realtimeService.on('todo:created', async (data: TodoUpdate) => {
+      if (isFromOtherUser(data)) {
+        await activityService.recordCreate(data.todo, actorOf(data), 'remote', data.timestamp).catch(logActivityError);
+      }
       setTodoUpdates(prev => [...prev, data]);
     });
 
-    realtimeService.on('todo:updated', (data: TodoUpdate) => {
+    realtimeService.on('todo:updated', async (data: TodoUpdate) => {
+      if (isFromOtherUser(data)) {
+        await recordRemoteChange(data, (cached) => ({ ...cached, ...data.todo })).catch(logActivityError);
+      }
       setTodoUpdates(prev => [...prev, data]);
     });
 
-    realtimeService.on('todo:deleted', (data: TodoUpdate) => {
+    // Deleted todos land in the trash; only purged ones leave the cache
+    realtimeService.on('todo:deleted', async (data: TodoUpdate) => {
+      const { id, deletedAt, purged } = data.todo ?? {};
+      if (typeof id === 'number') {
+        const trashedAt = deletedAt ?? new Date().toISOString();
+        if (purged) {
+          await activityService.clear(id).catch(logActivityError);
+        } else if (isFromOtherUser(data)) {
+          await recordRemoteChange(data, (cached) => ({ ...cached, deletedAt: trashedAt })).catch(logActivityError);
+        }
+        await (purged ? db.removeTodo(id) : db.trashTodo(id, trashedAt)).catch((error) =>
+          console.error('Error moving deleted todo to the trash:', error)
+        );
+      }
       setTodoUpdates(prev => [...prev, data]);
     });
 
@@ -125,7 +168,11 @@ export const RealtimeProvider: React.FC<{ children: ReactNode }> = ({ children }
   };
 
   const emitTodoChange = (type: TodoUpdate['type'], todo: any) => {
-    realtimeService.emitTodoChange(type, todo);
+    realtimeService.emitTodoChange(
+      type,
+      todo,
+      user ? { id: user.id.toString(), name: user.name || user.username || user.email } : undefined
+    );
   };
 
   const emitCursorMove = (x: number, y: number, todoId?: number) => {
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTodoMutations } from '../hooks/useTodoMutations';
+import { useOffline } from './OfflineContext';
+import { reminderService, describeReminder, DueReminder } from '../services/reminderService';
+import { db } from '../services/db';
+import { todoService } from '../services/todoService';
+
+const CHECK_INTERVAL = 30 * 1000;
+// How often the cache is brought up to date with every todo from the backend
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+const SNOOZE_MINUTES = 10;
+
+type PermissionState = NotificationPermission | 'unsupported';
+
+interface ReminderContextType {
+  permission: PermissionState;
+  requestPermission: () => Promise<PermissionState>;
+  activeReminders: DueReminder[];
+  snooze: (due: DueReminder) => Promise<void>;
+  markDone: (due: DueReminder) => void;
+  dismiss: (due: DueReminder) => void;
+}
+
+const ReminderContext = createContext<ReminderContextType | undefined>(undefined);
+
+const currentPermission = (): PermissionState =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+export const ReminderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const router = useRouter();
+  const { toggleCompleted } = useTodoMutations();
+  const { isOffline } = useOffline();
+  const lastRefresh = useRef(0);
+  const [permission, setPermission] = useState<PermissionState>('default');
+  const [activeReminders, setActiveReminders] = useState<DueReminder[]>([]);
+
+  useEffect(() => {
+    setPermission(currentPermission());
+  }, []);
+
+  const requestPermission = async (): Promise<PermissionState> => {
+    if (currentPermission() === 'unsupported') return 'unsupported';
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    return result;
+  };
+
+  // Returns false when the browser would not show a notification
+  const notify = useCallback(
+    (due: DueReminder): boolean => {
+      if (currentPermission() !== 'granted') return false;
+      try {
+        const notification = new Notification(`⏰ ${due.todo.todo}`, {
+          body: describeReminder(due.todo, due.reminder),
+          tag: due.key,
+        });
+        notification.onclick = () => {
+          window.focus();
+          router.push(`/todos/${due.todo.id}`);
+          notification.close();
+        };
+        return true;
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.warn('Notification failed, falling back to an in-page reminder:', error);
+        return false;
+      }
+    },
+    [router]
+  );
+
+  // Pages only cache the todos they show, so todos with reminders that were
+  // never opened on this device are fetched from the backend
+  const refreshCache = useCallback(async () => {
+    if (isOffline || Date.now() - lastRefresh.current < REFRESH_INTERVAL) return;
+    lastRefresh.current = Date.now();
+    try {
+      const { todos } = await todoService.list({ page: 1, pageSize: 0 });
+      await db.mergeTodos(todos);
+    } catch (error) {
+      console.error('Error refreshing todos for reminders:', error);
+    }
+  }, [isOffline]);
+
+  const checkReminders = useCallback(async () => {
+    try {
+      await refreshCache();
+      const due = await reminderService.collectDue(await db.todos.toArray());
+      for (const reminder of due) {
+        await reminderService.markFired(reminder);
+        notify(reminder);
+      }
+
+      // The in-page toast carries the snooze and done actions, so it is shown
+      // whether or not a system notification went out
+      if (due.length > 0) {
+        setActiveReminders((prev) => [...prev.filter((r) => !due.some((d) => d.key === r.key)), ...due]);
+      }
+    } catch (error) {
+      console.error('Error checking reminders:', error);
+    }
+  }, [notify, refreshCache]);
+
+  // Reminders live in IndexedDB with their todos, so checking on mount picks
+  // up anything that came due while the page was closed
+  useEffect(() => {
+    checkReminders();
+    const interval = setInterval(checkReminders, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [checkReminders]);
+
+  const dismiss = (due: DueReminder) => {
+    setActiveReminders((prev) => prev.filter((r) => r.key !== due.key));
+  };
+
+  const snooze = async (due: DueReminder) => {
+    dismiss(due);
+    await reminderService.snooze(due, SNOOZE_MINUTES);
+  };
+
+  const markDone = (due: DueReminder) => {
+    dismiss(due);
+    toggleCompleted.mutate({ id: due.todo.id, changes: { completed: true } });
+  };
+
+  return (
+    <ReminderContext.Provider value={{
+      permission,
+      requestPermission,
+      activeReminders,
+      snooze,
+      markDone,
+      dismiss,
+    }}>
+      {children}
+      {activeReminders.length > 0 && (
+        <div className="fixed top-4 right-4 z-50 space-y-2 w-80 max-w-[calc(100vw-2rem)]" aria-live="polite">
+          {activeReminders.map((due) => (
+            <div key={due.key} role="alert" className="bg-white text-gray-900 rounded-lg shadow-xl border border-pink-300 p-4">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold text-pink-900 break-words">⏰ {due.todo.todo}</p>
+                  <p className="text-xs text-gray-600 mt-1">{describeReminder(due.todo, due.reminder)}</p>
+                </div>
+                <button
+                  onClick={() => dismiss(due)}
+                  className="text-gray-400 hover:text-gray-700 text-sm"
+                  aria-label="Dismiss reminder"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => snooze(due)}
+                  className="flex-1 px-3 py-1 text-sm rounded border border-pink-400 text-pink-800 hover:bg-pink-50"
+                >
+                  💤 Snooze {SNOOZE_MINUTES}m
+                </button>
+                <button
+                  onClick={() => markDone(due)}
+                  className="flex-1 px-3 py-1 text-sm rounded bg-pink-800 text-white hover:bg-pink-900"
+                >
+                  ✅ Done
+                </button>
+              </div>
+              {permission === 'default' && (
+                <button
+                  onClick={requestPermission}
+                  className="mt-2 text-xs text-pink-700 underline hover:text-pink-900"
+                >
+                  Enable browser notifications
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </ReminderContext.Provider>
+  );
+};
+
+export const useReminders = () => {
+  const context = useContext(ReminderContext);
+  if (!context) {
+    throw new Error('useReminders must be used within ReminderProvider');
+  }
+  return context;
+};
\ No newline at end of file
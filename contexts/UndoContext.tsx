@@ -0,0 +1,98 @@
+'use client';
+
+import React, { createContext, useContext, useState, useRef, useCallback, ReactNode } from 'react';
+import { createHistoryEntry, HistoryEntry, HistoryOperation } from '../services/history';
+
+const MAX_HISTORY = 50;
+
+export type HistoryChange = { entry: HistoryEntry; kind: 'done' | 'undone' | 'redone'; at: number };
+
+interface UndoContextType {
+  canUndo: boolean;
+  canRedo: boolean;
+  // The latest recorded, undone or redone entry, for the undo toast
+  lastChange: HistoryChange | null;
+  record: (label: string, operations: HistoryOperation[]) => void;
+  // Run the inverse (undo) or the original (redo) of the latest entry through
+  // `execute`. Changes made while it runs are not recorded.
+  replay: (direction: 'undo' | 'redo', execute: (entry: HistoryEntry) => Promise<void>) => Promise<void>;
+  // Todos recreated by redoing an add get a new id; history keeps the old one
+  resolveId: (id: number) => number;
+  remapId: (from: number, to: number) => void;
+  dismissChange: () => void;
+}
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export const UndoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const [lastChange, setLastChange] = useState<HistoryChange | null>(null);
+  const isReplaying = useRef(false);
+  const idMap = useRef(new Map<number, number>());
+
+  const record = useCallback((label: string, operations: HistoryOperation[]) => {
+    if (isReplaying.current || operations.length === 0) return;
+    const entry = createHistoryEntry(label, operations);
+    setPast((prev) => [...prev.slice(-(MAX_HISTORY - 1)), entry]);
+    setFuture([]);
+    setLastChange({ entry, kind: 'done', at: Date.now() });
+  }, []);
+
+  const replay = async (direction: 'undo' | 'redo', execute: (entry: HistoryEntry) => Promise<void>) => {
+    const source = direction === 'undo' ? past : future;
+    const entry = source[source.length - 1];
+    if (!entry || isReplaying.current) return;
+
+    isReplaying.current = true;
+    try {
+      await execute(entry);
+    } finally {
+      isReplaying.current = false;
+    }
+
+    if (direction === 'undo') {
+      setPast((prev) => prev.slice(0, -1));
+      setFuture((prev) => [...prev, entry]);
+    } else {
+      setFuture((prev) => prev.slice(0, -1));
+      setPast((prev) => [...prev, entry]);
+    }
+    setLastChange({ entry, kind: direction === 'undo' ? 'undone' : 'redone', at: Date.now() });
+  };
+
+  const resolveId = (id: number): number => {
+    let current = id;
+    for (let step = 0; idMap.current.has(current) && step < idMap.current.size; step++) {
+      current = idMap.current.get(current)!;
+    }
+    return current;
+  };
+
+  const remapId = (from: number, to: number) => {
+    if (from !== to) idMap.current.set(from, to);
+  };
+
+  return (
+    <UndoContext.Provider value={{
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+      lastChange,
+      record,
+      replay,
+      resolveId,
+      remapId,
+      dismissChange: () => setLastChange(null),
+    }}>
+      {children}
+    </UndoContext.Provider>
+  );
+};
+
+export const useUndo = () => {
+  const context = useContext(UndoContext);
+  if (!context) {
+    throw new Error('useUndo must be used within UndoProvider');
+  }
+  return context;
+};
\ No newline at end of file
@@ -3,7 +3,9 @@ import { useSearch, useNavigate } from '@tanstack/react-router';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '../../../components/ui/button';
 import { aiService, ChatMessage } from '../../../services/aiService';
+import { ApiValidationError } from '../../../services/schemas';
 import { useAI } from '../../../contexts/AIContext';
+import { db } from '../../../services/db';
 
 interface ChatSession {
   id: string;
@@ -35,33 +37,34 @@ export default function AIChat() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
-  // Load saved sessions from localStorage
+  // Load saved sessions from IndexedDB
   useEffect(() => {
-    const savedSessions = localStorage.getItem('ai-chat-sessions');
-    if (savedSessions) {
-      const parsed = JSON.parse(savedSessions);
-      setSessions(parsed);
-      
-      // Load the most recent session or create new one
-      if (parsed.length > 0) {
-        const latestSession = parsed[0];
-        setCurrentSessionId(latestSession.id);
-        setMessages(latestSession.messages);
-      } else {
+    db.chatSessions
+      .orderBy('createdAt')
+      .reverse()
+      .toArray()
+      .then((saved) => {
+        setSessions(saved as ChatSession[]);
+
+        // Load the most recent session or create new one
+        if (saved.length > 0) {
+          const latestSession = saved[0];
+          setCurrentSessionId(latestSession.id);
+          setMessages(latestSession.messages);
+        } else {
+          createNewSession();
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading chat sessions:', error);
         createNewSession();
-      }
-    } else {
-      createNewSession();
-    }
+      });
   }, []);
 
   // Load todos for context
   const { data: todos = [] } = useQuery({
     queryKey: ['todos'],
-    queryFn: async () => {
-      const cached = localStorage.getItem('todos');
-      return cached ? JSON.parse(cached) : [];
-    },
+    queryFn: () => db.todos.toArray(),
   });
 
   // Auto-scroll to bottom
@@ -73,9 +76,12 @@ export default function AIChat() {
     scrollToBottom();
   }, [messages, streamingMessage]);
 
-  // Save sessions to localStorage
+  // Save sessions to IndexedDB
   const saveSessions = useCallback((updatedSessions: ChatSession[]) => {
-    localStorage.setItem('ai-chat-sessions', JSON.stringify(updatedSessions));
+    db.transaction('rw', db.chatSessions, async () => {
+      await db.chatSessions.clear();
+      await db.chatSessions.bulkPut(updatedSessions);
+    }).catch((error) => console.error('Error saving chat sessions:', error));
     setSessions(updatedSessions);
   }, []);
 
@@ -203,7 +209,9 @@ export default function AIChat() {
       const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
         role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: error instanceof ApiValidationError
+          ? 'Sorry, the AI service sent a response I could not understand. Please try again later.'
+          : 'Sorry, I encountered an error. Please try again.',
         timestamp: Date.now(),
       };
       setMessages([...newMessages, errorMessage]);
@@ -1,19 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
 import { useParams, useNavigate } from "@tanstack/react-router";
-
-// Type definition for Todo
-interface Todo {
-  id: number;
-  todo: string;
-  completed: boolean;
-  userId: number;
-}
+import { db } from "../../services/db";
 
 export default function TodoDetails() {
   const { todoId } = useParams({ strict: false });
   const navigate = useNavigate();
 
-  const todos: Todo[] = JSON.parse(localStorage.getItem("todos") || "[]");
-  const todo = todos.find((t: Todo) => t.id.toString() === todoId);
+  const { data: todo } = useQuery({
+    queryKey: ["todo", "cached", Number(todoId)],
+    queryFn: async () => (await db.todos.get(Number(todoId))) ?? null,
+  });
 
   if (!todo) return <p className="text-center text-red-500">Todo not found</p>;
 
@@ -2,8 +2,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { useParams, Link } from "@tanstack/react-router";
 import { Button } from "../../../components/ui/button";
-
-const BASE = "https://dummyjson.com/todos";
+import { todoService, Todo } from "../../../services/todoService";
 
 export default function TodoDetail() {
   const { id } = useParams({ strict: false });
@@ -12,13 +11,9 @@ export default function TodoDetail() {
     data: todo,
     isLoading,
     isError,
-  } = useQuery({
-    queryKey: ["todo", id],
-    queryFn: async () => {
-      const res = await fetch(`${BASE}/${id}`);
-      if (!res.ok) throw new Error("Failed to fetch todo");
-      return res.json();
-    },
+  } = useQuery<Todo>({
+    queryKey: ["todo", Number(id)],
+    queryFn: () => todoService.get(Number(id)),
   });
 
   if (isLoading) return <p>Loading...</p>;
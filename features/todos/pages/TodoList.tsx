@@ -13,28 +13,9 @@ import { useOffline } from "../../../contexts/OfflineContext";
 import { useRealtime } from "../../../contexts/RealtimeContext";
 import { useAI, useAISuggestions } from "../../../contexts/AIContext";
 import { useAuth } from "../../../contexts/AuthContext";
+import { todoService, Todo, NewTodo } from "../../../services/todoService";
+import { db } from "../../../services/db";
 
-// Enhanced API Configuration
-const BASE = "https://api.oluwasetemi.dev/todos";
-const FALLBACK_BASE = "https://dummyjson.com/todos";
-
-// Enhanced Type definitions
-interface Todo {
-  id: number;
-  todo: string;
-  completed: boolean;
-  userId: number;
-  createdAt?: string;
-  updatedAt?: string;
-  lastModified?: number;
-  syncStatus?: 'synced' | 'pending' | 'conflict';
-}
-
-interface NewTodo {
-  todo: string;
-  completed: boolean;
-  userId: number;
-}
 
 interface TodoStats {
   total: number;
@@ -102,29 +83,14 @@ export default function TodoList() {
   } = useQuery<Todo[]>({
     queryKey: ["todos", isOffline ? 'offline' : 'online'],
     queryFn: async (): Promise<Todo[]> => {
-      const cached = localStorage.getItem("todos");
-      if (isOffline && cached) {
-        return JSON.parse(cached);
+      if (isOffline) {
+        const cached = await db.todos.toArray();
+        if (cached.length > 0) return cached;
       }
 
-      try {
-        const res = await fetch(`${BASE}?limit=150`);
-        if (!res.ok) throw new Error(`API Error: ${res.status}`);
-        const data = await res.json();
-        const todos = Array.isArray(data) ? data : data.todos || [];
-        localStorage.setItem("todos", JSON.stringify(todos));
-        return todos;
-      } catch (error) {
-        console.log("Primary API failed, trying fallback:", error);
-        const res = await fetch(`${FALLBACK_BASE}/?limit=150`);
-        const data = await res.json();
-        const todos = data.todos.map((todo: any) => ({
-          ...todo,
-          syncStatus: 'synced' as const
-        }));
-        localStorage.setItem("todos", JSON.stringify(todos));
-        return todos;
-      }
+      const { todos } = await todoService.list({ page: 1, pageSize: 150 });
+      await db.replaceTodos(todos);
+      return todos;
     },
     staleTime: isOffline ? Infinity : 1000 * 60 * 5,
     refetchOnWindowFocus: !isOffline,
@@ -145,23 +111,7 @@ export default function TodoList() {
         return todoWithMeta as Todo;
       }
 
-      try {
-        const res = await fetch(`${BASE}`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(newTodo),
-        });
-        if (!res.ok) throw new Error("Failed to add todo");
-        return res.json();
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/add`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(newTodo),
-        });
-        if (!res.ok) throw new Error("Failed to add todo");
-        return res.json();
-      }
+      return todoService.create(newTodo);
     },
     onSuccess: (added: Todo) => {
       queryClient.setQueryData(["todos", isOffline ? 'offline' : 'online'], (old: Todo[] = []) => [added, ...old]);
@@ -171,9 +121,8 @@ export default function TodoList() {
       if (realtimeConnected && !isOffline) {
         emitTodoChange('create', added);
       }
-      
-      const updated = [added, ...todosData];
-      localStorage.setItem("todos", JSON.stringify(updated));
+
+      db.putTodo(added);
     },
   });
 
@@ -190,23 +139,7 @@ export default function TodoList() {
         return updatedTodo;
       }
 
-      try {
-        const res = await fetch(`${BASE}/${todo.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(todo),
-        });
-        if (!res.ok) throw new Error("Failed to update todo");
-        return res.json();
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${todo.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(todo),
-        });
-        if (!res.ok) throw new Error("Failed to update todo");
-        return res.json();
-      }
+      return todoService.update(todo.id, todo);
     },
     onSuccess: (updated: Todo) => {
       queryClient.setQueryData(["todos", isOffline ? 'offline' : 'online'], (old: Todo[] = []) =>
@@ -219,9 +152,8 @@ export default function TodoList() {
       if (realtimeConnected && !isOffline) {
         emitTodoChange('update', updated);
       }
-      
-      const updatedData = todosData.map(t => t.id === updated.id ? updated : t);
-      localStorage.setItem("todos", JSON.stringify(updatedData));
+
+      db.putTodo(updated);
     },
   });
 
@@ -232,15 +164,7 @@ export default function TodoList() {
         return id;
       }
 
-      try {
-        const res = await fetch(`${BASE}/${id}`, { method: "DELETE" });
-        if (!res.ok) throw new Error("Failed to delete");
-        return id;
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${id}`, { method: "DELETE" });
-        if (!res.ok) throw new Error("Failed to delete");
-        return id;
-      }
+      return todoService.delete(id);
     },
     onSuccess: (id: number) => {
       queryClient.setQueryData(["todos", isOffline ? 'offline' : 'online'], (old: Todo[] = []) =>
@@ -253,9 +177,8 @@ export default function TodoList() {
       if (realtimeConnected && !isOffline) {
         emitTodoChange('delete', { id });
       }
-      
-      const filtered = todosData.filter(t => t.id !== id);
-      localStorage.setItem("todos", JSON.stringify(filtered));
+
+      db.removeTodo(id);
     },
   });
 
@@ -273,23 +196,7 @@ export default function TodoList() {
         return updatedTodo;
       }
 
-      try {
-        const res = await fetch(`${BASE}/${todo.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ completed: !todo.completed }),
-        });
-        if (!res.ok) throw new Error("Failed to toggle completion");
-        return res.json();
-      } catch (error) {
-        const res = await fetch(`${FALLBACK_BASE}/${todo.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ completed: !todo.completed }),
-        });
-        if (!res.ok) throw new Error("Failed to toggle completion");
-        return res.json();
-      }
+      return todoService.update(todo.id, { completed: !todo.completed });
     },
     onSuccess: (updated: Todo) => {
       queryClient.setQueryData(["todos", isOffline ? 'offline' : 'online'], (old: Todo[] = []) =>
@@ -300,9 +207,8 @@ export default function TodoList() {
       if (realtimeConnected && !isOffline) {
         emitTodoChange('toggle', updated);
       }
-      
-      const updatedData = todosData.map(t => t.id === updated.id ? updated : t);
-      localStorage.setItem("todos", JSON.stringify(updatedData));
+
+      db.putTodo(updated);
     },
   });
 
@@ -0,0 +1,67 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useOffline } from '@/contexts/OfflineContext';
+import { listService } from '@/services/listService';
+import { todoService } from '@/services/todoService';
+import { INBOX_LIST_ID } from '@/services/todoQuery';
+import { db, TodoListRecord } from '@/services/db';
+import { useTodoMutations } from '@/hooks/useTodoMutations';
+
+export const LIST_QUERY_KEY = ['lists'];
+
+// Named lists plus the open todo count of each, for the sidebar and the
+// list picker in the todo editor
+export function useLists() {
+  const queryClient = useQueryClient();
+  const { isOffline } = useOffline();
+  const { updateTodo } = useTodoMutations();
+
+  const { data: lists = [] } = useQuery<TodoListRecord[]>({
+    queryKey: LIST_QUERY_KEY,
+    queryFn: () => listService.getAll(),
+    staleTime: Infinity,
+  });
+
+  // Counts come from the local cache, so they refresh along with the todo queries
+  const { data: openCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ['todos', 'listCounts'],
+    queryFn: () => listService.openCounts(),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: LIST_QUERY_KEY });
+
+  const createList = useMutation({
+    mutationFn: (name: string) => listService.create(name),
+    onSettled: refresh,
+  });
+
+  const renameList = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => listService.rename(id, name),
+    onSettled: refresh,
+  });
+
+  // Todos of a deleted list go back to the inbox through the regular update
+  // flow, so the move is queued when offline. They are looked up on the
+  // backend, trash included, since the cache only holds todos seen here.
+  const deleteList = useMutation({
+    mutationFn: async (id: string) => {
+      const fetchList = (trashed: boolean) => todoService.list({ page: 1, pageSize: 0, listId: id, trashed });
+      const todos = isOffline
+        ? await db.todos.where('listId').equals(id).toArray()
+        : [...(await fetchList(false)).todos, ...(await fetchList(true)).todos];
+      for (const todo of todos) {
+        updateTodo.mutate({ id: todo.id, changes: { listId: null } });
+      }
+      await listService.delete(id);
+    },
+    onSettled: refresh,
+  });
+
+  const getListName = (listId?: string | null): string | undefined => {
+    if (listId === INBOX_LIST_ID) return 'Inbox';
+    return lists.find((list) => list.id === listId)?.name;
+  };
+
+  return { lists, openCounts, createList, renameList, deleteList, getListName };
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { BUILT_IN_VIEWS, SavedView, SavedViewInput, savedViewService } from '@/services/savedViewService';
+
+// Built-in views followed by the signed-in user's own
+export function useSavedViews() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user ? String(user.id) : 'anonymous';
+  const queryKey = ['savedViews', userId];
+
+  const { data: customViews = [] } = useQuery<SavedView[]>({
+    queryKey,
+    queryFn: () => savedViewService.getAll(userId),
+    staleTime: Infinity,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const saveView = useMutation({
+    mutationFn: (input: SavedViewInput) => savedViewService.create(userId, input),
+    onSettled: refresh,
+  });
+
+  const deleteView = useMutation({
+    mutationFn: (id: string) => savedViewService.delete(id),
+    onSettled: refresh,
+  });
+
+  const views = [...BUILT_IN_VIEWS, ...customViews];
+
+  return {
+    views,
+    getView: (id?: string | null) => views.find((view) => view.id === id),
+    saveView,
+    deleteView,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,483 @@
+'use client';
+
+import { useState } from 'react';
+import { QueryKey, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { useUndo } from '@/contexts/UndoContext';
+import { todoService, NewTodo, Todo, TodoChanges } from '@/services/todoService';
+import { TodoListParams, TodoPage, isInList } from '@/services/todoQuery';
+import { db, BatchOperation } from '@/services/db';
+import { applyCompletion } from '@/services/recurrence';
+import { STATUS_LABELS } from '@/services/todoStatus';
+import { batchChanges, describeBatchAction, TodoBatchAction } from '@/services/batchActions';
+import { changesBefore, HistoryOperation } from '@/services/history';
+import { activityService } from '@/services/activityService';
+import { trashService } from '@/services/trashService';
+import { ApiValidationError } from '@/services/schemas';
+
+type TodoCounts = { total: number; completed: number };
+
+export interface TodoUpdateInput {
+  id: number;
+  changes: TodoChanges;
+  // Apply the changes as given, without spawning the next occurrence of a
+  // recurring todo. Used when undoing and redoing.
+  exact?: boolean;
+}
+
+export interface TodoBatchInput {
+  todos: Todo[];
+  action: TodoBatchAction;
+}
+
+interface TodoBatchResult {
+  updated: Todo[];
+  // Next occurrences of completed recurring todos, already created online
+  created: Todo[];
+  // Next occurrences still to create, when offline
+  spawns: NewTodo[];
+}
+
+// Everything under ['todos'] plus the detail entry, captured before an optimistic change
+interface CacheSnapshot {
+  lists: [QueryKey, unknown][];
+  todo?: { id: number; data: Todo | undefined };
+}
+
+interface MutationContext {
+  snapshot: CacheSnapshot;
+  tempId?: number;
+  // Next occurrence to create once a recurring todo is completed
+  spawn?: NewTodo;
+  // The todo before the change and the changes applied, for the undo history
+  previous?: Todo;
+  applied?: TodoChanges;
+}
+
+const describeError = (error: unknown): string => {
+  if (error instanceof ApiValidationError) return 'the server sent an unexpected response';
+  return (error as any)?.message || 'something went wrong';
+};
+
+// Create, update, toggle and delete todos with optimistic cache updates that
+// roll back on failure. Shared by the list and detail pages.
+export function useTodoMutations() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { isOffline, addToSyncQueue } = useOffline();
+  const { emitTodoChange, isConnected: realtimeConnected } = useRealtime();
+  const { record } = useUndo();
+  const [mutationError, setMutationError] = useState<string | null>(null);
+
+  const mode = isOffline ? 'offline' : 'online';
+
+  const takeSnapshot = async (id?: number): Promise<CacheSnapshot> => {
+    await queryClient.cancelQueries({ queryKey: ['todos'] });
+    if (id !== undefined) await queryClient.cancelQueries({ queryKey: ['todo', id] });
+
+    return {
+      lists: queryClient.getQueriesData({ queryKey: ['todos'] }),
+      todo: id !== undefined ? { id, data: queryClient.getQueryData<Todo>(['todo', id]) } : undefined,
+    };
+  };
+
+  const restoreSnapshot = (snapshot?: CacheSnapshot) => {
+    if (!snapshot) return;
+    for (const [queryKey, data] of snapshot.lists) {
+      queryClient.setQueryData(queryKey, data);
+    }
+    if (snapshot.todo) {
+      queryClient.setQueryData(['todo', snapshot.todo.id], snapshot.todo.data);
+    }
+  };
+
+  // Whether a query scoped to one list (or to every list when listId is
+  // undefined) shows the todo. Without a todo every query is patched.
+  const inScope = (listId: unknown, todo?: Pick<Todo, 'listId'>) =>
+    !todo || typeof listId !== 'string' || isInList(todo as Todo, listId);
+
+  const patchPages = (update: (current: TodoPage) => TodoPage, todo?: Pick<Todo, 'listId' | 'deletedAt'>) => {
+    queryClient.setQueriesData<TodoPage>(
+      {
+        queryKey: ['todos', mode, 'list'],
+        predicate: (query) => {
+          const params = query.queryKey[3] as TodoListParams | undefined;
+          // Trash pages only show trashed todos, the others never do
+          return inScope(params?.listId, todo) && (!todo || !params?.trashed === !todo.deletedAt);
+        },
+      },
+      (old) => (old ? update(old) : old)
+    );
+  };
+
+  // Stats are keyed by list id, or 'all' for the totals across lists
+  const patchCounts = (delta: Partial<TodoCounts>, todo?: Pick<Todo, 'listId'>) => {
+    queryClient.setQueriesData<TodoCounts>(
+      {
+        queryKey: ['todos', mode, 'stats'],
+        predicate: (query) => inScope(query.queryKey[3] === 'all' ? undefined : query.queryKey[3], todo),
+      },
+      (old) =>
+        old ? { total: old.total + (delta.total ?? 0), completed: old.completed + (delta.completed ?? 0) } : old
+    );
+  };
+
+  const replaceInPages = (id: number, todo: Todo) => {
+    patchPages((old) => ({ ...old, todos: old.todos.map((t) => (t.id === id ? todo : t)) }));
+  };
+
+  const removeFromPages = (ids: number[]) => {
+    patchPages((old) => {
+      const remaining = old.todos.filter((t) => !ids.includes(t.id));
+      return { ...old, todos: remaining, total: old.total - (old.todos.length - remaining.length) };
+    });
+  };
+
+  // Whether changes move a todo into or out of the trash
+  const changesTrash = (todo: Todo, changes: TodoChanges) =>
+    changes.deletedAt !== undefined && !changes.deletedAt !== !todo.deletedAt;
+
+  // Latest copy of a todo from the detail query, a list page or the local cache
+  const findTodo = async (id: number): Promise<Todo | undefined> => {
+    const detail = queryClient.getQueryData<Todo>(['todo', id]);
+    if (detail) return detail;
+
+    for (const [, data] of queryClient.getQueriesData<TodoPage>({ queryKey: ['todos', mode, 'list'] })) {
+      const found = data?.todos.find((t) => t.id === id);
+      if (found) return found;
+    }
+    return db.todos.get(id);
+  };
+
+  const fail = (action: string) => (error: unknown, _variables: unknown, context?: MutationContext) => {
+    restoreSnapshot(context?.snapshot);
+    setMutationError(`Couldn't ${action} the todo: ${describeError(error)}. Your change was undone.`);
+  };
+
+  // Changes made here show up in the todo's activity timeline as the signed-in user's
+  const actor = { id: user?.id?.toString() ?? 'anonymous', name: user?.name || user?.username || user?.email };
+
+  const logActivity = async (todoId: number, write: Promise<void>) => {
+    await write.catch((error) => console.error('Error recording todo activity:', error));
+    queryClient.invalidateQueries({ queryKey: ['activity', todoId] });
+  };
+
+  const reconcile = (id?: number) => {
+    queryClient.invalidateQueries({ queryKey: ['todos'] });
+    if (id !== undefined) queryClient.invalidateQueries({ queryKey: ['todo', id] });
+  };
+
+  // Create with or without an undo entry of its own. Callers that add todos as
+  // part of a larger change record them in that change's entry instead.
+  const createOptions = (recordHistory: boolean) => ({
+    mutationFn: async (newTodo: NewTodo): Promise<Todo> => {
+      if (isOffline) {
+        const queued: Todo = { ...newTodo, id: Date.now(), lastModified: Date.now(), syncStatus: 'pending' };
+        addToSyncQueue({ action: 'create', data: queued });
+        return queued;
+      }
+
+      // The local fallback backend queues the todo and marks it pending itself
+      const created = await todoService.create(newTodo);
+      return { ...created, syncStatus: created.syncStatus ?? 'synced' };
+    },
+    onMutate: async (newTodo: NewTodo): Promise<MutationContext> => {
+      setMutationError(null);
+      const snapshot = await takeSnapshot();
+      const tempId = Date.now();
+      const optimistic: Todo = {
+        ...newTodo,
+        id: tempId,
+        createdAt: new Date().toISOString(),
+        lastModified: Date.now(),
+        syncStatus: 'pending',
+      };
+
+      patchPages(
+        (old) => (old.page === 1 ? { ...old, todos: [optimistic, ...old.todos], total: old.total + 1 } : old),
+        newTodo
+      );
+      patchCounts({ total: 1, completed: newTodo.completed ? 1 : 0 }, newTodo);
+      return { snapshot, tempId };
+    },
+    onSuccess: async (added: Todo, _newTodo: NewTodo, context?: MutationContext) => {
+      if (context?.tempId !== undefined) replaceInPages(context.tempId, added);
+      if (realtimeConnected && !isOffline) emitTodoChange('create', added);
+      await db.putTodo(added);
+      await logActivity(added.id, activityService.recordCreate(added, actor, 'local'));
+      if (recordHistory) record(`Add "${added.todo}"`, [{ type: 'create', todo: added }]);
+    },
+    onError: fail('add'),
+    onSettled: () => reconcile(),
+  });
+
+  const createTodo = useMutation<Todo, unknown, NewTodo, MutationContext>(createOptions(true));
+  const createUnrecorded = useMutation<Todo, unknown, NewTodo, MutationContext>(createOptions(false));
+
+  // Create a todo as part of another change, resolving with the undo operation
+  // for that change's entry, or with none when the create failed. The failure
+  // itself is reported like any other.
+  const createAsPartOf = (newTodo: NewTodo): Promise<HistoryOperation[]> =>
+    createUnrecorded
+      .mutateAsync(newTodo)
+      .then((todo): HistoryOperation[] => [{ type: 'create', todo }])
+      .catch(() => []);
+
+  // Update and toggle share the same optimistic flow but emit different realtime events
+  const updateOptions = (event: 'update' | 'toggle') => ({
+    mutationFn: async ({ id, changes, exact }: TodoUpdateInput): Promise<Todo> => {
+      // The cache is only written after success, so it still holds the pre-edit copy
+      const base = (await db.todos.get(id)) ?? (await findTodo(id));
+      const current = base ?? ({ id } as Todo);
+      const effective = exact ? changes : applyCompletion(current, changes).changes;
+
+      if (isOffline) {
+        const queued: Todo = { ...current, ...effective, id, lastModified: Date.now(), syncStatus: 'pending' };
+        addToSyncQueue({ action: 'update', data: queued, base });
+        return queued;
+      }
+
+      const updated = await todoService.update(id, effective);
+      return { ...current, ...updated, syncStatus: updated.syncStatus ?? 'synced' };
+    },
+    onMutate: async ({ id, changes, exact }: TodoUpdateInput): Promise<MutationContext> => {
+      setMutationError(null);
+      const current = await findTodo(id);
+      const snapshot = await takeSnapshot(id);
+      if (!current) return { snapshot };
+
+      const { changes: effective, next } = exact ? { changes, next: undefined } : applyCompletion(current, changes);
+      const optimistic: Todo = { ...current, ...effective, id, lastModified: Date.now() };
+      queryClient.setQueryData(['todo', id], optimistic);
+      if (changesTrash(current, effective)) {
+        // Trashed todos leave the lists and the stats; restored ones show up again on refetch
+        const sign = optimistic.deletedAt ? -1 : 1;
+        removeFromPages([id]);
+        patchCounts({ total: sign, completed: current.completed ? sign : 0 }, current);
+        return { snapshot, previous: current, applied: effective };
+      }
+      replaceInPages(id, optimistic);
+      if (effective.completed !== undefined && effective.completed !== current.completed) {
+        patchCounts({ completed: effective.completed ? 1 : -1 }, current);
+      }
+      return { snapshot, spawn: next, previous: current, applied: effective };
+    },
+    onSuccess: async (updated: Todo, { changes }: TodoUpdateInput, context?: MutationContext) => {
+      const trashed = !!context?.previous && !context.previous.deletedAt && !!updated.deletedAt;
+      replaceInPages(updated.id, updated);
+      queryClient.setQueryData(['todo', updated.id], updated);
+      if (realtimeConnected && !isOffline) emitTodoChange(trashed ? 'delete' : event, updated);
+      await db.putTodo(updated);
+      if (trashed) await trashService.markTrashed(updated);
+      else if (context?.previous?.deletedAt && !updated.deletedAt) await trashService.forget(updated.id);
+      if (context?.previous) {
+        await logActivity(updated.id, activityService.recordChange(context.previous, updated, actor, 'local'));
+      }
+      if (context?.previous && context.applied) {
+        const label = trashed
+          ? `Move "${updated.todo}" to trash`
+          : context.previous.deletedAt && !updated.deletedAt
+          ? `Restore "${updated.todo}"`
+          : Object.keys(context.applied).join() === 'position'
+          ? `Move "${updated.todo}"`
+          : Object.keys(changes).join() === 'status' && updated.status
+          ? `Move "${updated.todo}" to ${STATUS_LABELS[updated.status]}`
+          : event === 'toggle'
+          ? `Mark "${updated.todo}" ${updated.completed ? 'complete' : 'incomplete'}`
+          : `Edit "${updated.todo}"`;
+        const before = changesBefore(context.previous, context.applied);
+        const operations: HistoryOperation[] = [{ type: 'update', id: updated.id, before, after: context.applied }];
+        // The next occurrence of a recurring todo is undone along with the completion
+        if (context.spawn) operations.push(...(await createAsPartOf(context.spawn)));
+        record(label, operations);
+      }
+    },
+    onError: fail('update'),
+    onSettled: (_data: unknown, _error: unknown, { id }: TodoUpdateInput) => reconcile(id),
+  });
+
+  const updateTodo = useMutation<Todo, unknown, TodoUpdateInput, MutationContext>(updateOptions('update'));
+  const toggleCompleted = useMutation<Todo, unknown, TodoUpdateInput, MutationContext>(updateOptions('toggle'));
+
+  // Deleting and restoring set or clear deletedAt through the update flow,
+  // taking just the todo id
+  const trashOptions = (action: string, changes: () => TodoChanges) => {
+    const options = updateOptions('update');
+    const input = (id: number): TodoUpdateInput => ({ id, changes: changes(), exact: true });
+    return {
+      mutationFn: (id: number) => options.mutationFn(input(id)),
+      onMutate: (id: number) => options.onMutate(input(id)),
+      onSuccess: (updated: Todo, id: number, context?: MutationContext) =>
+        options.onSuccess(updated, input(id), context),
+      onError: fail(action),
+      onSettled: (_data: unknown, _error: unknown, id: number) => reconcile(id),
+    };
+  };
+
+  const deleteTodo = useMutation<Todo, unknown, number, MutationContext>(
+    trashOptions('delete', () => ({ deletedAt: new Date().toISOString() }))
+  );
+  const restoreTodo = useMutation<Todo, unknown, number, MutationContext>(
+    trashOptions('restore', () => ({ deletedAt: null }))
+  );
+
+  // Delete a todo for good, usually from the trash. Not recorded for undo.
+  const purgeTodo = useMutation<number, unknown, number, MutationContext>({
+    mutationFn: async (id) => {
+      if (isOffline) {
+        addToSyncQueue({ action: 'delete', data: { id } });
+        return id;
+      }
+
+      return todoService.delete(id);
+    },
+    onMutate: async (id) => {
+      setMutationError(null);
+      const removed = await findTodo(id);
+      const snapshot = await takeSnapshot(id);
+
+      removeFromPages([id]);
+      if (removed && !removed.deletedAt) {
+        patchCounts({ total: -1, completed: removed.completed ? -1 : 0 }, removed);
+      }
+      return { snapshot, previous: removed };
+    },
+    onSuccess: async (id) => {
+      if (realtimeConnected && !isOffline) emitTodoChange('delete', { id, purged: true });
+      await db.removeTodo(id);
+      await trashService.forget(id);
+      await logActivity(id, activityService.clear(id));
+    },
+    onError: fail('delete'),
+    onSettled: () => reconcile(),
+  });
+
+  // One action over many todos. Offline, the whole batch is a single sync
+  // queue item that replays in order once the connection is back.
+  const batchTodos = useMutation<TodoBatchResult, unknown, TodoBatchInput, MutationContext>({
+    mutationFn: async ({ todos, action }) => {
+      const operations: BatchOperation[] = [];
+      const spawns = new Map<number, NewTodo>();
+      const updated: Todo[] = [];
+      const created: Todo[] = [];
+
+      for (const todo of todos) {
+        const changes = batchChanges(todo, action);
+        if (!changes) continue;
+        const { changes: effective, next } = applyCompletion(todo, changes);
+        if (next) spawns.set(todo.id, next);
+        const base = (await db.todos.get(todo.id)) ?? todo;
+        operations.push({
+          action: 'update',
+          data: { ...todo, ...effective, lastModified: Date.now(), syncStatus: 'pending' },
+          base,
+        });
+      }
+
+      if (isOffline) {
+        if (operations.length > 0) addToSyncQueue({ action: 'batch', data: { operations } });
+        return {
+          updated: operations.map((op) => op.data as Todo),
+          created,
+          spawns: Array.from(spawns.values()),
+        };
+      }
+
+      for (const operation of operations) {
+        const { id, syncStatus, lastModified, ...changes } = operation.data as Todo;
+        const result = await todoService.update(id, changes);
+        updated.push({ ...operation.data, ...result, syncStatus: result.syncStatus ?? 'synced' });
+        // Continue the series right away so a later failure cannot leave it without a next occurrence
+        const next = spawns.get(id);
+        if (next) {
+          const result = await todoService.create(next);
+          const spawned: Todo = { ...result, syncStatus: result.syncStatus ?? 'synced' };
+          await db.putTodo(spawned);
+          created.push(spawned);
+        }
+      }
+      return { updated, created, spawns: [] };
+    },
+    onMutate: async ({ todos, action }) => {
+      setMutationError(null);
+      const snapshot = await takeSnapshot();
+
+      if (action.type === 'delete') removeFromPages(todos.map((todo) => todo.id));
+      for (const todo of todos) {
+        const changes = batchChanges(todo, action);
+        if (!changes) continue;
+        const effective = applyCompletion(todo, changes).changes;
+        // Stats move the same way as for a single todo
+        if (changesTrash(todo, effective)) {
+          patchCounts({ total: -1, completed: todo.completed ? -1 : 0 }, todo);
+          continue;
+        }
+        replaceInPages(todo.id, { ...todo, ...effective, lastModified: Date.now() });
+        if (effective.completed !== undefined && effective.completed !== todo.completed) {
+          patchCounts({ completed: effective.completed ? 1 : -1 }, todo);
+        }
+        if (effective.listId !== undefined && (effective.listId ?? null) !== (todo.listId ?? null)) {
+          const completed = todo.completed ? 1 : 0;
+          patchCounts({ total: -1, completed: -completed }, todo);
+          patchCounts({ total: 1, completed }, { listId: effective.listId });
+        }
+      }
+      return { snapshot };
+    },
+    onSuccess: async ({ updated, created, spawns }, { todos, action }) => {
+      const event =
+        action.type === 'delete'
+          ? 'delete'
+          : action.type === 'complete' || action.type === 'uncomplete'
+          ? 'toggle'
+          : 'update';
+      for (const todo of updated) {
+        replaceInPages(todo.id, todo);
+        if (realtimeConnected && !isOffline) emitTodoChange(event, todo);
+        await db.putTodo(todo);
+        if (action.type === 'delete') await trashService.markTrashed(todo);
+        const original = todos.find((t) => t.id === todo.id);
+        if (original) await logActivity(todo.id, activityService.recordChange(original, todo, actor, 'local'));
+      }
+
+      const operations: HistoryOperation[] = [];
+      for (const todo of todos) {
+        const changes = updated.some((u) => u.id === todo.id) ? batchChanges(todo, action) : null;
+        if (!changes) continue;
+        const after = applyCompletion(todo, changes).changes;
+        operations.push({ type: 'update', id: todo.id, before: changesBefore(todo, after), after });
+      }
+      const verb = describeBatchAction(action);
+      const label = `${verb.charAt(0).toUpperCase()}${verb.slice(1)} ${operations.length} todos`;
+      // Next occurrences are undone along with the batch
+      operations.push(...created.map((todo): HistoryOperation => ({ type: 'create', todo })));
+      for (const spawn of spawns) {
+        operations.push(...(await createAsPartOf(spawn)));
+      }
+      record(label, operations);
+    },
+    onError: (error, { todos, action }, context) => {
+      restoreSnapshot(context?.snapshot);
+      setMutationError(
+        `Couldn't ${describeBatchAction(action)} ${todos.length} todos: ${describeError(error)}. ` +
+          'Some of them may already have been changed; the list has been refreshed.'
+      );
+    },
+    onSettled: () => reconcile(),
+  });
+
+  return {
+    createTodo,
+    createAsPartOf,
+    updateTodo,
+    toggleCompleted,
+    deleteTodo,
+    restoreTodo,
+    purgeTodo,
+    batchTodos,
+    mutationError,
+    clearMutationError: () => setMutationError(null),
+  };
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { todoService } from '@/services/todoService';
+import { listService } from '@/services/listService';
+import { filterTodos, queryTodos, TodoListParams, TodoPage } from '@/services/todoQuery';
+import { db } from '@/services/db';
+
+// Load a page of todos from the backend and cache them, or read the cache
+// while offline
+export function useFetchTodoPage() {
+  const { isOffline } = useOffline();
+
+  return async (params: TodoListParams): Promise<TodoPage> => {
+    // Unsynced edits only exist locally, so the pending filter always reads the cache
+    if (isOffline || params.status === 'pending') {
+      return queryTodos(await db.todos.toArray(), await listService.scope(params));
+    }
+
+    const result = await todoService.list(params);
+    return { ...result, todos: await db.mergeTodos(result.todos) };
+  };
+}
+
+// A page of todos under the ['todos', mode, 'list', params] key the mutations patch
+export function useTodoPage(params: TodoListParams) {
+  const { isOffline } = useOffline();
+  const fetchTodoPage = useFetchTodoPage();
+
+  return useQuery<TodoPage>({
+    queryKey: ['todos', isOffline ? 'offline' : 'online', 'list', params],
+    queryFn: () => fetchTodoPage(params),
+    placeholderData: keepPreviousData,
+    staleTime: isOffline ? Infinity : 1000 * 60 * 5,
+    refetchOnWindowFocus: !isOffline,
+  });
+}
+
+// Every tag on a cached todo outside the trash, for the tag filters
+export function useKnownTags() {
+  const { data: knownTags = [] } = useQuery<string[]>({
+    queryKey: ['todos', 'tags'],
+    queryFn: async () =>
+      Array.from(new Set(filterTodos(await db.todos.toArray(), {}).flatMap((t) => t.tags ?? []))).sort(),
+  });
+  return knownTags;
+}
+
+// Refetch the todo queries when someone else changes a todo
+export function useRealtimeRefetch() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { todoUpdates } = useRealtime();
+
+  useEffect(() => {
+    if (todoUpdates.length > 0) {
+      const latestUpdate = todoUpdates[todoUpdates.length - 1];
+      if (latestUpdate.userId === user?.id?.toString()) return;
+      queryClient.invalidateQueries({ queryKey: ['todos'] });
+    }
+  }, [todoUpdates, queryClient, user]);
+}
\ No newline at end of file
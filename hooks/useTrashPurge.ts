@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useOffline } from '@/contexts/OfflineContext';
+import { trashService } from '@/services/trashService';
+
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+// Delete todos that have been in the trash past the retention period, on
+// mount and then hourly. Waits while offline, since purges need the API.
+export function useTrashPurge() {
+  const queryClient = useQueryClient();
+  const { isOffline } = useOffline();
+
+  useEffect(() => {
+    if (isOffline) return;
+
+    const purge = () =>
+      trashService
+        .purgeExpired()
+        .then((purged) => {
+          if (purged > 0) queryClient.invalidateQueries({ queryKey: ['todos'] });
+        })
+        .catch((error) => console.error('Error purging expired todos from the trash:', error));
+
+    purge();
+    const interval = setInterval(purge, PURGE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isOffline, queryClient]);
+}
\ No newline at end of file
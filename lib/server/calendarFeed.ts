@@ -0,0 +1,51 @@
+// Signed tokens for calendar subscription URLs. Calendar apps cannot send an
+// Authorization header, so the feed URL itself carries the proof of access.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { parseResponse, userSchema } from '@/services/schemas';
+import { TodoStoreError } from './todoStore';
+
+// Same API the app signs in against in services/authService.ts
+const AUTH_API_URL = 'https://api.oluwasetemi.dev';
+
+function secret(): string {
+  const value = process.env.CALENDAR_FEED_SECRET;
+  if (!value) throw new TodoStoreError(503, 'Calendar feeds are not set up on this server');
+  return value;
+}
+
+const sign = (payload: string) => createHmac('sha256', secret()).update(payload).digest('base64url');
+
+// The token for a user is always the same, so the subscription URL stays
+// stable. Changing CALENDAR_FEED_SECRET revokes every issued URL.
+export function createFeedToken(userId: string): string {
+  const payload = Buffer.from(JSON.stringify({ sub: userId })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// The user id a token was issued to, or null when it was not signed here
+export function verifyFeedToken(token: string): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { sub } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof sub === 'string' ? sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in user behind an Authorization header
+export async function currentUserId(authorization: string | null): Promise<string> {
+  if (!authorization) throw new TodoStoreError(401, 'Sign in to get a calendar feed');
+
+  const res = await fetch(`${AUTH_API_URL}/auth/me`, { headers: { Authorization: authorization } });
+  if (!res.ok) throw new TodoStoreError(401, 'Sign in to get a calendar feed');
+
+  const user = parseResponse(userSchema, await res.json(), 'auth API');
+  return String(user.id);
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+// Local JSON file standing in for the todo API during offline development
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NewTodo, Todo, TodoChanges } from '@/services/todoService';
+import { queryTodos, TodoListParams, TodoPage } from '@/services/todoQuery';
+import type { TodoStore } from './todoStore';
+import { TodoStoreError } from './todoStore';
+
+const DEFAULT_DATA_FILE = path.join(process.cwd(), '.data', 'todos.json');
+
+export class FileTodoStore implements TodoStore {
+  private filePath: string;
+  // Writes are chained so concurrent requests never interleave read-modify-write cycles
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = DEFAULT_DATA_FILE) {
+    this.filePath = filePath;
+  }
+
+  async list(params: TodoListParams): Promise<TodoPage> {
+    return queryTodos(await this.readAll(), params);
+  }
+
+  async get(id: number): Promise<Todo> {
+    const todo = (await this.readAll()).find((t) => t.id === id);
+    if (!todo) throw new TodoStoreError(404, `Todo ${id} not found`);
+    return todo;
+  }
+
+  async create(newTodo: NewTodo): Promise<Todo> {
+    return this.mutate((todos) => {
+      const now = new Date().toISOString();
+      const todo: Todo = {
+        ...newTodo,
+        id: todos.reduce((max, t) => Math.max(max, t.id), 0) + 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return { todos: [todo, ...todos], result: todo };
+    });
+  }
+
+  async update(id: number, changes: TodoChanges): Promise<Todo> {
+    return this.mutate((todos) => {
+      const existing = todos.find((t) => t.id === id);
+      if (!existing) throw new TodoStoreError(404, `Todo ${id} not found`);
+
+      const { syncStatus, lastModified, ...serverChanges } = changes;
+      const todo: Todo = { ...existing, ...serverChanges, id, updatedAt: new Date().toISOString() };
+      return { todos: todos.map((t) => (t.id === id ? todo : t)), result: todo };
+    });
+  }
+
+  async remove(id: number): Promise<Todo> {
+    return this.mutate((todos) => {
+      const existing = todos.find((t) => t.id === id);
+      if (!existing) throw new TodoStoreError(404, `Todo ${id} not found`);
+      return { todos: todos.filter((t) => t.id !== id), result: existing };
+    });
+  }
+
+  private async readAll(): Promise<Todo[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async mutate<T>(change: (todos: Todo[]) => { todos: Todo[]; result: T }): Promise<T> {
+    const run = this.writeChain.then(async () => {
+      const { todos, result } = change(await this.readAll());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(todos, null, 2));
+      return result;
+    });
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+}
\ No newline at end of file
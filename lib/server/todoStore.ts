@@ -0,0 +1,53 @@
+// Server-side todo storage used by the /api/todos route handlers
+import { NextResponse } from 'next/server';
+import { ApiValidationError } from '@/services/schemas';
+import type { NewTodo, Todo, TodoChanges } from '@/services/todoService';
+import type { TodoListParams, TodoPage } from '@/services/todoQuery';
+import { FileTodoStore } from './fileTodoStore';
+import { UpstreamTodoStore } from './upstreamTodoStore';
+
+export interface TodoStore {
+  list(params: TodoListParams): Promise<TodoPage>;
+  get(id: number): Promise<Todo>;
+  create(newTodo: NewTodo): Promise<Todo>;
+  update(id: number, changes: TodoChanges): Promise<Todo>;
+  remove(id: number): Promise<Todo>;
+}
+
+// Raised with the HTTP status the route handler should answer with
+export class TodoStoreError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'TodoStoreError';
+    this.status = status;
+  }
+}
+
+let fileStore: FileTodoStore | null = null;
+
+// Proxy to TODOS_UPSTREAM_URL when configured, otherwise use the local file store
+export function getTodoStore(authorization?: string | null): TodoStore {
+  const upstreamUrl = process.env.TODOS_UPSTREAM_URL;
+  if (upstreamUrl) {
+    return new UpstreamTodoStore(upstreamUrl, authorization);
+  }
+
+  fileStore ??= new FileTodoStore(process.env.TODOS_DATA_FILE);
+  return fileStore;
+}
+
+
+// Map store, upstream and validation failures onto JSON error responses
+export function toErrorResponse(error: unknown): NextResponse {
+  if (error instanceof TodoStoreError) {
+    return NextResponse.json({ message: error.message }, { status: error.status });
+  }
+  if (error instanceof ApiValidationError) {
+    return NextResponse.json({ message: error.message, issues: error.issues }, { status: 502 });
+  }
+
+  console.error('Todo route failed:', error);
+  return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+}
\ No newline at end of file
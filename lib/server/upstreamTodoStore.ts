@@ -0,0 +1,63 @@
+// Proxies todo requests to the configured upstream API and normalizes its responses
+import type { NewTodo, Todo, TodoChanges } from '@/services/todoService';
+import { queryTodos, TodoListParams, TodoPage } from '@/services/todoQuery';
+import { parseResponse, todoListSchema, todoSchema } from '@/services/schemas';
+import type { TodoStore } from './todoStore';
+import { TodoStoreError } from './todoStore';
+
+export class UpstreamTodoStore implements TodoStore {
+  private baseUrl: string;
+  private authorization?: string | null;
+
+  constructor(baseUrl: string, authorization?: string | null) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.authorization = authorization;
+  }
+
+  async list(params: TodoListParams): Promise<TodoPage> {
+    // Upstreams know neither the trash nor lists, tags, structured searches
+    // or manual order, and may silently ignore those params. Querying the
+    // full list here keeps deleted todos out of the main list.
+    const data = await this.request('?limit=0');
+    const parsed = parseResponse(todoListSchema, data, 'upstream todo list');
+    return queryTodos(Array.isArray(parsed) ? parsed : parsed.todos, params);
+  }
+
+  async get(id: number): Promise<Todo> {
+    return parseResponse(todoSchema, await this.request(`/${id}`), 'upstream todo');
+  }
+
+  async create(newTodo: NewTodo): Promise<Todo> {
+    // dummyjson only accepts new todos at /add
+    const createPath = new URL(this.baseUrl).hostname.endsWith('dummyjson.com') ? '/add' : '';
+    const data = await this.request(createPath, { method: 'POST', body: JSON.stringify(newTodo) });
+    return parseResponse(todoSchema, data, 'upstream todo');
+  }
+
+  async update(id: number, changes: TodoChanges): Promise<Todo> {
+    const data = await this.request(`/${id}`, { method: 'PUT', body: JSON.stringify(changes) });
+    return parseResponse(todoSchema, data, 'upstream todo');
+  }
+
+  async remove(id: number): Promise<Todo> {
+    return parseResponse(todoSchema, await this.request(`/${id}`, { method: 'DELETE' }), 'upstream todo');
+  }
+
+  private async request(path: string, options: RequestInit = {}): Promise<unknown> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.authorization) headers['Authorization'] = this.authorization;
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, { ...options, headers, cache: 'no-store' });
+    } catch (error: any) {
+      throw new TodoStoreError(502, `Upstream todo API unreachable: ${error?.message || error}`);
+    }
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new TodoStoreError(res.status, body.message || `Upstream todo API error: ${res.status}`);
+    }
+    return res.json();
+  }
+}
\ No newline at end of file
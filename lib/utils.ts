@@ -3,4 +3,15 @@ import { twMerge } from 'tailwind-merge';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
+}
+
+// Save text as a file through a temporary download link
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers only start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+// Per-todo activity timeline: who created, edited, completed, reassigned or
+// trashed a todo, with the old and new values. Stored in IndexedDB and fed by
+// local mutations and by realtime updates from other users.
+import { db, ActivityRecord } from './db';
+import type { Todo } from './todoService';
+import { CONFLICT_FIELDS, fieldEquals } from './syncService';
+import type { TodoField } from './todoFields';
+
+export type ActivityType = 'created' | 'edited' | 'toggled' | 'reassigned' | 'trashed' | 'restored';
+
+export interface ActivityChange {
+  field: TodoField;
+  before: unknown;
+  after: unknown;
+}
+
+// Who made a change, as known to this device
+export interface ActivityActor {
+  id: string;
+  name?: string;
+}
+
+// Manual order changes on every drag, so it stays out of the timeline
+const ACTIVITY_FIELDS: TodoField[] = [...CONFLICT_FIELDS.filter((field) => field !== 'position'), 'userId'];
+
+// Older entries are dropped once a todo has this many
+const MAX_ENTRIES_PER_TODO = 100;
+
+// The tracked fields that differ between two copies of a todo
+export function diffTodos(before: Todo, after: Todo): ActivityChange[] {
+  return ACTIVITY_FIELDS.filter((field) => !fieldEquals(before[field], after[field])).map((field) => ({
+    field,
+    before: before[field] ?? null,
+    after: after[field] ?? null,
+  }));
+}
+
+// Trash and assignee moves stand out from plain edits in the timeline
+export function activityType(changes: ActivityChange[]): ActivityType {
+  const trash = changes.find((change) => change.field === 'deletedAt');
+  if (trash) return trash.after ? 'trashed' : 'restored';
+  if (changes.some((change) => change.field === 'userId')) return 'reassigned';
+  if (changes.some((change) => change.field === 'completed')) return 'toggled';
+  return 'edited';
+}
+
+class ActivityService {
+  // Newest first
+  async forTodo(todoId: number): Promise<ActivityRecord[]> {
+    const entries = await db.activity.where('todoId').equals(todoId).sortBy('timestamp');
+    return entries.reverse();
+  }
+
+  async recordCreate(
+    todo: Todo,
+    actor: ActivityActor,
+    source: ActivityRecord['source'],
+    timestamp = Date.now()
+  ): Promise<void> {
+    await this.add({
+      todoId: todo.id,
+      type: 'created',
+      userId: actor.id,
+      userName: actor.name,
+      source,
+      timestamp,
+      changes: [],
+    });
+  }
+
+  // Nothing is recorded when none of the tracked fields changed
+  async recordChange(
+    before: Todo,
+    after: Todo,
+    actor: ActivityActor,
+    source: ActivityRecord['source'],
+    timestamp = Date.now()
+  ): Promise<void> {
+    const changes = diffTodos(before, after);
+    if (changes.length === 0) return;
+    await this.add({
+      todoId: after.id,
+      type: activityType(changes),
+      userId: actor.id,
+      userName: actor.name,
+      source,
+      timestamp,
+      changes,
+    });
+  }
+
+  // A todo deleted for good takes its timeline with it
+  async clear(todoId: number): Promise<void> {
+    await db.activity.where('todoId').equals(todoId).delete();
+  }
+
+  private async add(entry: ActivityRecord): Promise<void> {
+    await db.transaction('rw', db.activity, async () => {
+      await db.activity.add(entry);
+      const entries = await db.activity.where('todoId').equals(entry.todoId).sortBy('timestamp');
+      const excess = entries.slice(0, Math.max(0, entries.length - MAX_ENTRIES_PER_TODO));
+      if (excess.length > 0) await db.activity.bulkDelete(excess.map((old) => old.id!));
+    });
+  }
+}
+
+export const activityService = new ActivityService();
+export default ActivityService;
\ No newline at end of file
@@ -1,4 +1,12 @@
 // AI Service for OpenAI integration
+import type { z } from 'zod';
+import {
+  ApiValidationError,
+  chatCompletionChunkSchema,
+  chatCompletionResponseSchema,
+  parseResponse,
+} from './schemas';
+
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -7,21 +15,7 @@ interface ChatMessage {
   tokens?: number;
 }
 
-interface ChatCompletionResponse {
-  id: string;
-  choices: {
-    message: {
-      role: 'assistant';
-      content: string;
-    };
-    finish_reason: string;
-  }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+type ChatCompletionResponse = z.infer<typeof chatCompletionResponseSchema>;
 
 interface AIServiceConfig {
   apiKey?: string;
@@ -86,8 +80,12 @@ class AIService {
         throw new Error(`OpenAI API error: ${response.status}`);
       }
 
-      const data: ChatCompletionResponse = await response.json();
-      
+      const data: ChatCompletionResponse = parseResponse(
+        chatCompletionResponseSchema,
+        await response.json(),
+        'OpenAI chat completion'
+      );
+
       return {
         id: data.id,
         role: 'assistant',
@@ -96,6 +94,7 @@ class AIService {
         tokens: data.usage.total_tokens,
       };
     } catch (error) {
+      if (error instanceof ApiValidationError) throw error;
       console.error('AI Service error:', error);
       // Fallback to mock response on error
       return this.getMockResponse(messages[messages.length - 1], context);
@@ -160,15 +159,19 @@ class AIService {
             const data = line.slice(6);
             if (data === '[DONE]') continue;
 
+            let json: unknown;
             try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices[0]?.delta?.content || '';
-              if (content) {
-                fullContent += content;
-                onChunk?.(content);
-              }
+              json = JSON.parse(data);
             } catch (e) {
               console.error('Error parsing streaming response:', e);
+              continue;
+            }
+
+            const parsed = parseResponse(chatCompletionChunkSchema, json, 'OpenAI stream chunk');
+            const content = parsed.choices[0]?.delta?.content || '';
+            if (content) {
+              fullContent += content;
+              onChunk?.(content);
             }
           }
         }
@@ -181,6 +184,7 @@ class AIService {
         timestamp: Date.now(),
       };
     } catch (error) {
+      if (error instanceof ApiValidationError) throw error;
       console.error('Streaming AI Service error:', error);
       return this.getStreamingMockResponse(messages[messages.length - 1], context, onChunk);
     }
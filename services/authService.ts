@@ -1,21 +1,18 @@
 // Authentication Service for api.oluwasetemi.dev
+import type { z } from 'zod';
+import {
+  ApiValidationError,
+  authResponseSchema,
+  parseResponse,
+  refreshTokenResponseSchema,
+  userSchema,
+} from './schemas';
+
 const BASE_URL = 'https://api.oluwasetemi.dev';
 
-export interface User {
-  id: string | number;
-  email: string;
-  name?: string;
-  username?: string;
-  avatar?: string;
-  createdAt?: string;
-}
+export type User = z.infer<typeof userSchema>;
 
-export interface AuthResponse {
-  user: User;
-  token: string;
-  refreshToken?: string;
-  expiresIn?: number;
-}
+export type AuthResponse = z.infer<typeof authResponseSchema>;
 
 export interface LoginCredentials {
   email: string;
@@ -42,7 +39,8 @@ class AuthService {
   // Helper method for API requests
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: z.ZodType<T>
   ): Promise<T> {
     const url = `${BASE_URL}${endpoint}`;
     
@@ -73,7 +71,7 @@ class AuthService {
           if (!retryResponse.ok) {
             throw new Error(`HTTP error! status: ${retryResponse.status}`);
           }
-          return retryResponse.json();
+          return this.parse(await retryResponse.json(), endpoint, schema);
         } else {
           // Refresh failed, logout user
           this.logout();
@@ -86,24 +84,31 @@ class AuthService {
         throw new Error(error.message || `HTTP error! status: ${response.status}`);
       }
 
-      return response.json();
+      return this.parse(await response.json(), endpoint, schema);
     } catch (error) {
       console.error('Auth request error:', error);
       throw error;
     }
   }
 
+  // Validate a response body when a schema is given
+  private parse<T>(data: unknown, endpoint: string, schema?: z.ZodType<T>): T {
+    return schema ? parseResponse(schema, data, endpoint) : (data as T);
+  }
+
   // Register new user
   async signup(credentials: SignupCredentials): Promise<AuthResponse> {
     try {
       const response = await this.request<AuthResponse>('/auth/signup', {
         method: 'POST',
         body: JSON.stringify(credentials),
-      });
+      }, authResponseSchema);
 
       this.setAuthData(response);
       return response;
     } catch (error: any) {
+      if (error instanceof ApiValidationError) throw error;
+
       // Fallback for demo purposes
       console.warn('Signup API not available, using mock response');
       const mockResponse: AuthResponse = {
@@ -127,11 +132,13 @@ class AuthService {
       const response = await this.request<AuthResponse>('/auth/login', {
         method: 'POST',
         body: JSON.stringify(credentials),
-      });
+      }, authResponseSchema);
 
       this.setAuthData(response);
       return response;
     } catch (error: any) {
+      if (error instanceof ApiValidationError) throw error;
+
       // Fallback for demo purposes
       console.warn('Login API not available, using mock response');
       const mockResponse: AuthResponse = {
@@ -164,7 +171,7 @@ class AuthService {
     }
 
     try {
-      const user = await this.request<User>('/auth/me');
+      const user = await this.request<User>('/auth/me', {}, userSchema);
       return user;
     } catch (error) {
       // Fallback to stored user data
@@ -195,7 +202,7 @@ class AuthService {
         return false;
       }
 
-      const data = await response.json();
+      const data = parseResponse(refreshTokenResponseSchema, await response.json(), '/auth/refresh');
       this.token = data.token;
       localStorage.setItem('auth_token', data.token);
       return true;
@@ -211,7 +218,7 @@ class AuthService {
       const user = await this.request<User>('/auth/profile', {
         method: 'PATCH',
         body: JSON.stringify(updates),
-      });
+      }, userSchema);
 
       // Update stored user data
       localStorage.setItem('user_data', JSON.stringify(user));
@@ -0,0 +1,49 @@
+// Tracks consecutive failures of a backend and stops routing to it for a while
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN = 30 * 1000;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private failureThreshold: number;
+  private cooldown: number;
+
+  constructor(failureThreshold = FAILURE_THRESHOLD, cooldown = COOLDOWN) {
+    this.failureThreshold = failureThreshold;
+    this.cooldown = cooldown;
+  }
+
+  // Open circuits let a single trial request through once the cooldown has passed
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldown) {
+      this.state = 'half-open';
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.trip();
+    }
+  }
+
+  // Open immediately, e.g. after a failed health probe
+  trip(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  getState(): CircuitState {
+    this.canRequest();
+    return this.state;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+// Todo backend reached over HTTP
+import { parseResponse, todoListSchema, todoSchema } from '../schemas';
+import { queryTodos, toSearchParams, TodoListParams, TodoPage } from '../todoQuery';
+import { authService } from '../authService';
+import type { NewTodo, Todo, TodoChanges } from '../todoService';
+import { BackendId, TodoBackend, TodoBackendError } from './types';
+
+const HEALTH_TIMEOUT = 5000;
+
+interface HttpBackendOptions {
+  id: BackendId;
+  label: string;
+  baseUrl: string;
+  persistent: boolean;
+  readOnly?: boolean;
+  // Path new todos are POSTed to, relative to baseUrl
+  createPath?: string;
+  // Whether the API runs the whole list query itself, trash, lists,
+  // structured searches and manual order included, as this app's /api/todos
+  // route does
+  evaluatesQuery?: boolean;
+}
+
+export class HttpTodoBackend implements TodoBackend {
+  readonly id: BackendId;
+  readonly label: string;
+  readonly persistent: boolean;
+  readonly readOnly: boolean;
+  private baseUrl: string;
+  private createPath: string;
+  private evaluatesQuery: boolean;
+
+  constructor(options: HttpBackendOptions) {
+    this.id = options.id;
+    this.label = options.label;
+    this.persistent = options.persistent;
+    this.readOnly = options.readOnly ?? false;
+    this.baseUrl = options.baseUrl;
+    this.createPath = options.createPath ?? '';
+    this.evaluatesQuery = options.evaluatesQuery ?? false;
+  }
+
+  // Fetch one page of todos, querying on the client unless the API runs the
+  // whole query. An API that ignored the trash param would otherwise mix
+  // deleted todos into every list.
+  async list(params: TodoListParams): Promise<TodoPage> {
+    const query = this.evaluatesQuery ? `?${toSearchParams(params)}` : '?limit=0';
+    const parsed = parseResponse(todoListSchema, await this.request(query), `${this.label} todo list`);
+    const markSynced = (todos: Todo[]) => todos.map((todo) => ({ ...todo, syncStatus: 'synced' as const }));
+
+    if (this.evaluatesQuery && !Array.isArray(parsed) && parsed.total !== undefined) {
+      return {
+        todos: markSynced(parsed.todos),
+        total: parsed.total,
+        page: params.page,
+        pageSize: params.pageSize,
+      };
+    }
+
+    const todos = Array.isArray(parsed) ? parsed : parsed.todos;
+    return queryTodos(markSynced(todos), params);
+  }
+
+  async get(id: number): Promise<Todo> {
+    return parseResponse(todoSchema, await this.request(`/${id}`), `${this.label} todo`);
+  }
+
+  async create(newTodo: NewTodo): Promise<Todo> {
+    const data = await this.request(this.createPath, { method: 'POST', body: JSON.stringify(newTodo) });
+    return parseResponse(todoSchema, data, `${this.label} todo`);
+  }
+
+  async update(id: number, changes: TodoChanges): Promise<Todo> {
+    const data = await this.request(`/${id}`, { method: 'PUT', body: JSON.stringify(changes) });
+    return parseResponse(todoSchema, data, `${this.label} todo`);
+  }
+
+  async delete(id: number): Promise<number> {
+    await this.request(`/${id}`, { method: 'DELETE' });
+    return id;
+  }
+
+  // Cheap read that must answer within HEALTH_TIMEOUT
+  async checkHealth(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT);
+    try {
+      const res = await fetch(`${this.baseUrl}?limit=1`, { headers: this.headers(), signal: controller.signal });
+      return res.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private headers(): Record<string, string> {
+    const token = authService.getToken();
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  }
+
+  private async request(path: string, options: RequestInit = {}): Promise<unknown> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, { ...options, headers: this.headers() });
+    } catch (error: any) {
+      throw new TodoBackendError(this.id, `${this.label} is unreachable: ${error?.message || error}`);
+    }
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new TodoBackendError(this.id, body.message || `${this.label} request failed: ${res.status}`, res.status);
+    }
+    return res.json();
+  }
+}
+
+const TODOS_API_URL = process.env.NEXT_PUBLIC_TODOS_API_URL;
+
+// This app's /api/todos route, which keeps todos in a local file unless the
+// server sets TODOS_UPSTREAM_URL, or the API NEXT_PUBLIC_TODOS_API_URL names
+export const oluwasetemiBackend = new HttpTodoBackend({
+  id: 'oluwasetemi',
+  label: TODOS_API_URL ? TODOS_API_URL.replace(/^\w+:\/\//, '').split('/')[0] : 'App server',
+  baseUrl: TODOS_API_URL || '/api/todos',
+  persistent: true,
+  evaluatesQuery: !TODOS_API_URL,
+});
+
+// Accepts writes but never stores them
+export const dummyjsonBackend = new HttpTodoBackend({
+  id: 'dummyjson',
+  label: 'dummyjson.com',
+  baseUrl: 'https://dummyjson.com/todos',
+  persistent: false,
+  readOnly: true,
+  createPath: '/add',
+});
\ No newline at end of file
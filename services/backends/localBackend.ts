@@ -0,0 +1,67 @@
+// Last-resort backend that keeps todos in IndexedDB on this device only.
+// Writes are queued like offline edits and replayed once a backend that
+// stores them is back.
+import { db } from '../db';
+import { syncService } from '../syncService';
+import { queryTodos, TodoListParams, TodoPage } from '../todoQuery';
+import type { NewTodo, Todo, TodoChanges } from '../todoService';
+import { TodoBackend, TodoBackendError } from './types';
+
+class LocalTodoBackend implements TodoBackend {
+  readonly id = 'local' as const;
+  readonly label = 'Local store';
+  readonly persistent = false;
+  readonly readOnly = false;
+
+  async list(params: TodoListParams): Promise<TodoPage> {
+    return queryTodos(await db.todos.toArray(), params);
+  }
+
+  async get(id: number): Promise<Todo> {
+    const todo = await db.todos.get(id);
+    if (!todo) throw new TodoBackendError(this.id, `Todo ${id} not found`, 404);
+    return todo;
+  }
+
+  async create(newTodo: NewTodo): Promise<Todo> {
+    const now = new Date().toISOString();
+    const todo: Todo = {
+      ...newTodo,
+      id: Date.now(),
+      createdAt: now,
+      updatedAt: now,
+      lastModified: Date.now(),
+      syncStatus: 'pending',
+    };
+    await db.putTodo(todo);
+    await syncService.enqueue({ action: 'create', data: todo });
+    return todo;
+  }
+
+  async update(id: number, changes: TodoChanges): Promise<Todo> {
+    const base = await this.get(id);
+    const todo: Todo = {
+      ...base,
+      ...changes,
+      id,
+      updatedAt: new Date().toISOString(),
+      lastModified: Date.now(),
+      syncStatus: 'pending',
+    };
+    await db.putTodo(todo);
+    await syncService.enqueue({ action: 'update', data: todo, base });
+    return todo;
+  }
+
+  async delete(id: number): Promise<number> {
+    await db.removeTodo(id);
+    await syncService.enqueue({ action: 'delete', data: { id } });
+    return id;
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+}
+
+export const localBackend = new LocalTodoBackend();
\ No newline at end of file
@@ -0,0 +1,39 @@
+// Shared contract for the places todos can be read from and written to
+import type { NewTodo, Todo, TodoChanges } from '../todoService';
+import type { TodoListParams, TodoPage } from '../todoQuery';
+
+export type BackendId = 'oluwasetemi' | 'dummyjson' | 'local';
+
+export interface TodoBackend {
+  id: BackendId;
+  label: string;
+  // Whether writes are stored for real and visible on other devices
+  persistent: boolean;
+  // Accepts writes without keeping them anywhere, so it only serves reads
+  readOnly: boolean;
+  list(params: TodoListParams): Promise<TodoPage>;
+  get(id: number): Promise<Todo>;
+  create(newTodo: NewTodo): Promise<Todo>;
+  update(id: number, changes: TodoChanges): Promise<Todo>;
+  delete(id: number): Promise<number>;
+  checkHealth(): Promise<boolean>;
+}
+
+// Raised by a backend when a request fails. Requests without a status never
+// reached the backend.
+export class TodoBackendError extends Error {
+  readonly backendId: BackendId;
+  readonly status?: number;
+
+  constructor(backendId: BackendId, message: string, status?: number) {
+    super(message);
+    this.name = 'TodoBackendError';
+    this.backendId = backendId;
+    this.status = status;
+  }
+
+  // Client errors are the caller's fault, so retrying elsewhere would not help
+  get isUnavailable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
\ No newline at end of file
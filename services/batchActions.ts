@@ -0,0 +1,43 @@
+// Actions applied to several selected todos at once
+import type { Todo, TodoChanges } from './todoService';
+
+export type TodoBatchAction =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'delete' }
+  | { type: 'tag'; tag: string }
+  | { type: 'move'; listId: string | null };
+
+// Changes an action makes to one todo, or null when the todo is already in
+// the requested state. Deleting moves the todo to the trash.
+export function batchChanges(todo: Todo, action: TodoBatchAction): TodoChanges | null {
+  switch (action.type) {
+    case 'complete':
+      return todo.completed ? null : { completed: true };
+    case 'uncomplete':
+      return todo.completed ? { completed: false } : null;
+    case 'tag': {
+      const tags = todo.tags ?? [];
+      return tags.includes(action.tag) ? null : { tags: [...tags, action.tag] };
+    }
+    case 'move':
+      return (todo.listId ?? null) === action.listId ? null : { listId: action.listId };
+    case 'delete':
+      return todo.deletedAt ? null : { deletedAt: new Date().toISOString() };
+  }
+}
+
+export function describeBatchAction(action: TodoBatchAction): string {
+  switch (action.type) {
+    case 'complete':
+      return 'complete';
+    case 'uncomplete':
+      return 'reopen';
+    case 'delete':
+      return 'trash';
+    case 'tag':
+      return `tag #${action.tag} on`;
+    case 'move':
+      return 'move';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+// Date ranges and rescheduling for the calendar views. Weeks start on Sunday
+// and days are local calendar days, keyed with dateKey.
+import type { Todo } from './todoService';
+import type { TodoListParams } from './todoQuery';
+import { dateKey } from './recurrence';
+
+export type CalendarMode = 'month' | 'week' | 'agenda';
+
+export const CALENDAR_MODES: CalendarMode[] = ['month', 'week', 'agenda'];
+
+// Days the agenda covers from its start date
+export const AGENDA_DAYS = 14;
+
+// Time of day for todos given a day but no time: undated todos dropped onto
+// a day, and date-only imports
+export const DEFAULT_DUE_HOUR = 9;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date): Date => addDays(date, -date.getDay());
+
+// Every day shown by a view, in order. Months are padded out to whole weeks.
+export function calendarDays(mode: CalendarMode, anchor: Date): Date[] {
+  let first = startOfDay(anchor);
+  let count = AGENDA_DAYS;
+
+  if (mode === 'week') {
+    first = startOfWeek(anchor);
+    count = 7;
+  } else if (mode === 'month') {
+    first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    count = Math.round((addDays(startOfWeek(last), 7).getTime() - first.getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  return Array.from({ length: count }, (_, i) => addDays(first, i));
+}
+
+// The anchor of the previous (-1) or next (1) page of a view
+export function shiftAnchor(mode: CalendarMode, anchor: Date, step: number): Date {
+  if (mode === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+  return addDays(anchor, step * (mode === 'week' ? 7 : AGENDA_DAYS));
+}
+
+export function calendarTitle(mode: CalendarMode, anchor: Date): string {
+  if (mode === 'month') return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const days = calendarDays(mode, anchor);
+  const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${format(days[0])} – ${format(days[days.length - 1])}, ${days[days.length - 1].getFullYear()}`;
+}
+
+// Todos by the local day they are due, each day in due time order
+export function groupByDay(todos: Todo[]): Map<string, Todo[]> {
+  const groups = new Map<string, Todo[]>();
+  for (const todo of todos) {
+    if (!todo.dueAt) continue;
+    const key = dateKey(new Date(todo.dueAt));
+    groups.set(key, [...(groups.get(key) ?? []), todo]);
+  }
+  for (const day of groups.values()) {
+    day.sort((a, b) => Date.parse(a.dueAt!) - Date.parse(b.dueAt!));
+  }
+  return groups;
+}
+
+// The todo's due date moved onto `day`, keeping its time of day
+export function rescheduledDueAt(todo: Todo, day: Date): string {
+  const due = todo.dueAt ? new Date(todo.dueAt) : null;
+  const next = startOfDay(day);
+  if (due) next.setHours(due.getHours(), due.getMinutes(), due.getSeconds(), due.getMilliseconds());
+  else next.setHours(DEFAULT_DUE_HOUR);
+  return next.toISOString();
+}
+
+// Search and filter state carried between the list and the calendar
+export type CalendarFilters = Pick<TodoListParams, 'search' | 'status' | 'tag' | 'listId'>;
+
+export function filtersFromQuery(query: URLSearchParams): CalendarFilters {
+  return {
+    search: query.get('q') ?? '',
+    status: (query.get('filter') as TodoListParams['status']) || 'all',
+    tag: query.get('tag') || undefined,
+    listId: query.get('list') || undefined,
+  };
+}
+
+function filtersToQuery(filters: CalendarFilters): URLSearchParams {
+  const query = new URLSearchParams();
+  if (filters.search) query.set('q', filters.search);
+  if (filters.status && filters.status !== 'all') query.set('filter', filters.status);
+  if (filters.tag) query.set('tag', filters.tag);
+  return query;
+}
+
+// Link that opens the calendar with the list's search and filters applied
+export function calendarHref(filters: CalendarFilters): string {
+  const query = filtersToQuery(filters);
+  if (filters.listId) query.set('list', filters.listId);
+  return query.size > 0 ? `/calendar?${query}` : '/calendar';
+}
+
+// Link back from the calendar to the list it was opened from
+export function listHref(filters: CalendarFilters): string {
+  const query = filtersToQuery(filters);
+  const path = filters.listId ? `/lists/${filters.listId}` : '/';
+  return query.size > 0 ? `${path}?${query}` : path;
+}
\ No newline at end of file
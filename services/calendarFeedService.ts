@@ -0,0 +1,28 @@
+// Calendar subscription URLs served by the /api/calendar route handlers
+import { authService } from './authService';
+import type { ICalComponent } from './ical';
+
+class CalendarFeedService {
+  // The signed-in user's feed URL, listing todos as events or as tasks
+  async getFeedUrl(component: ICalComponent = 'VEVENT'): Promise<string> {
+    const token = authService.getToken();
+    const res = await fetch('/api/calendar', {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.message || `Calendar feed request failed: ${res.status}`);
+
+    const url = new URL(body.path, window.location.origin);
+    if (component === 'VTODO') url.searchParams.set('type', 'todo');
+    return url.toString();
+  }
+
+  // Same feed for calendar apps that register the webcal: scheme
+  toWebcal(feedUrl: string): string {
+    return feedUrl.replace(/^https?:/, 'webcal:');
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
+export default CalendarFeedService;
\ No newline at end of file
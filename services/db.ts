@@ -0,0 +1,214 @@
+// IndexedDB persistence via Dexie for todos, the offline sync queue and AI chat sessions
+import Dexie, { Table } from 'dexie';
+import type { Todo } from './todoService';
+import type { ChatMessage } from './aiService';
+import type { TodoSort, TodoStatusFilter } from './todoQuery';
+import type { ActivityChange, ActivityType } from './activityService';
+
+export interface SyncQueueItem {
+  id?: number;
+  // A batch carries its operations as data.operations and replays them in order
+  action: 'create' | 'update' | 'delete' | 'batch';
+  data: any;
+  createdAt: number;
+  base?: Todo;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+  // Set when the backend rejected the item for good. It is kept for the user
+  // to see and discard, and no longer holds up the items behind it.
+  failedAt?: number;
+}
+
+export type BatchOperation = Pick<SyncQueueItem, 'data' | 'base'> & { action: 'update' | 'delete' };
+
+export interface TodoConflict {
+  todoId: number;
+  local: Todo;
+  remote: Todo;
+  base?: Todo;
+  detectedAt: number;
+}
+
+// Local delivery state of a reminder, kept per device so a reminder fires
+// once per trigger time even across reloads
+export interface ReminderState {
+  key: string;
+  todoId: number;
+  triggerAt: number;
+  firedAt: number;
+  snoozedUntil?: number;
+}
+
+// A todo moved to the trash from this device. Only these are purged by this
+// device's retention setting, so a shorter setting here never deletes trash
+// another device is still keeping.
+export interface TrashRecord {
+  todoId: number;
+  // The todo's deletedAt when it was trashed here, so a later trashing from
+  // another device does not count
+  deletedAt: string;
+}
+
+export interface TodoListRecord {
+  id: string;
+  name: string;
+  icon?: string;
+  position: number;
+  createdAt: number;
+}
+
+export interface SavedViewRecord {
+  id: string;
+  userId: string;
+  name: string;
+  search: string;
+  status: TodoStatusFilter;
+  sortBy: TodoSort;
+  pageSize: number;
+  tag?: string;
+  position: number;
+  createdAt: number;
+}
+
+// One entry in a todo's activity timeline. Kept on this device for local
+// changes and for realtime changes made by other users.
+export interface ActivityRecord {
+  id?: number;
+  todoId: number;
+  type: ActivityType;
+  userId: string;
+  userName?: string;
+  source: 'local' | 'remote';
+  timestamp: number;
+  changes: ActivityChange[];
+}
+
+export interface ChatSessionRecord {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  userId?: string | number;
+  context?: {
+    type: 'general' | 'todo' | 'productivity';
+    todoId?: number;
+  };
+}
+
+class TodoDatabase extends Dexie {
+  todos!: Table<Todo, number>;
+  syncQueue!: Table<SyncQueueItem, number>;
+  chatSessions!: Table<ChatSessionRecord, string>;
+  conflicts!: Table<TodoConflict, number>;
+  reminderState!: Table<ReminderState, string>;
+  lists!: Table<TodoListRecord, string>;
+  savedViews!: Table<SavedViewRecord, string>;
+  activity!: Table<ActivityRecord, number>;
+  trashedHere!: Table<TrashRecord, number>;
+
+  constructor() {
+    super('todo-app');
+
+    this.version(1).stores({
+      todos: 'id, completed, updatedAt, userId',
+      syncQueue: '++id, action, createdAt',
+      chatSessions: 'id, createdAt, userId',
+    });
+
+    this.version(2).stores({
+      conflicts: 'todoId, detectedAt',
+    });
+
+    this.version(3).stores({
+      todos: 'id, completed, updatedAt, userId, dueAt, priority, *tags',
+    });
+
+    this.version(4).stores({
+      reminderState: 'key, todoId',
+    });
+
+    this.version(5).stores({
+      todos: 'id, completed, updatedAt, userId, dueAt, priority, *tags, listId',
+      lists: 'id, position',
+    });
+
+    this.version(6).stores({
+      savedViews: 'id, userId, position',
+    });
+
+    this.version(7).stores({
+      activity: '++id, todoId, timestamp',
+    });
+
+    this.version(8).stores({
+      trashedHere: 'todoId',
+    });
+  }
+
+  // Replace the cached todo list with a fresh copy from the API, keeping
+  // local edits that have not been synced yet. Resolves with the merged list.
+  async replaceTodos(todos: Todo[]): Promise<Todo[]> {
+    return this.transaction('rw', this.todos, async () => {
+      const unsynced = await this.todos
+        .filter((todo) => todo.syncStatus === 'pending' || todo.syncStatus === 'conflict')
+        .toArray();
+      const unsyncedById = new Map(unsynced.map((todo) => [todo.id, todo]));
+
+      await this.todos.clear();
+      await this.todos.bulkPut(todos);
+      await this.todos.bulkPut(unsynced);
+
+      const merged = todos.map((todo) => unsyncedById.get(todo.id) ?? todo);
+      const localOnly = unsynced.filter((todo) => !todos.some((t) => t.id === todo.id));
+      return [...localOnly, ...merged];
+    });
+  }
+
+  // Cache a page of todos from the API without dropping the rest of the
+  // cache. Local edits that have not been synced yet win over the server copy.
+  async mergeTodos(todos: Todo[]): Promise<Todo[]> {
+    return this.transaction('rw', this.todos, async () => {
+      const cached = await this.todos.bulkGet(todos.map((todo) => todo.id));
+      const merged = todos.map((todo, index) => {
+        const local = cached[index];
+        return local && (local.syncStatus === 'pending' || local.syncStatus === 'conflict') ? local : todo;
+      });
+      await this.todos.bulkPut(merged);
+      return merged;
+    });
+  }
+
+  // Insert or update a single cached todo
+  async putTodo(todo: Todo): Promise<void> {
+    await this.todos.put(todo);
+  }
+
+  // Remove a single cached todo
+  async removeTodo(id: number): Promise<void> {
+    await this.todos.delete(id);
+  }
+
+  // Move a cached todo to the trash, e.g. after a teammate deleted it
+  async trashTodo(id: number, deletedAt = new Date().toISOString()): Promise<void> {
+    await this.todos.update(id, { deletedAt });
+  }
+
+  // Clear everything stored for the current user. Saved views are keyed by
+  // user, so they stay for the next sign-in. Lists stay as well: they only
+  // exist on this device, while their todos keep pointing at them on the server.
+  // So does the record of todos trashed here, so they are still purged.
+  async clearAll(): Promise<void> {
+    await Promise.all([
+      this.todos.clear(),
+      this.syncQueue.clear(),
+      this.chatSessions.clear(),
+      this.conflicts.clear(),
+      this.reminderState.clear(),
+      this.activity.clear(),
+    ]);
+  }
+}
+
+export const db = new TodoDatabase();
+export default TodoDatabase;
\ No newline at end of file
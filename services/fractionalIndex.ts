@@ -0,0 +1,50 @@
+// Fractional index keys for manual ordering. A key is a string of base-62
+// digits read as a fraction ("V" is about one half) and keys compare as plain
+// strings. There is always room for a key between two others, so a move only
+// rewrites the moved item and concurrent moves never renumber a list.
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Midpoint of two fractions, with b null standing for 1. Neither may end in
+// "0", which would leave no digit between them.
+function midpoint(a: string, b: string | null): string {
+  if (b) {
+    let n = 0;
+    while ((a[n] ?? DIGITS[0]) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+
+  // Adjacent digits: b's first digit is enough when b continues past it,
+  // otherwise keep a's digit and look further down
+  if (b && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+const isValidKey = (key: string) =>
+  key.length > 0 && !key.endsWith(DIGITS[0]) && [...key].every((char) => DIGITS.includes(char));
+
+// A key sorting after `before` and before `after`; null for an open end
+export function keyBetween(before: string | null, after: string | null): string {
+  if ((before !== null && !isValidKey(before)) || (after !== null && !isValidKey(after))) {
+    throw new Error(`Invalid order key: ${before} / ${after}`);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order key ${before} is not before ${after}`);
+  }
+  return midpoint(before ?? '', after);
+}
+
+// Encode a non-negative integer as a fixed-width key, so numbers and keys
+// sort alike. A trailing digit keeps the key valid when the number ends in 0.
+export function keyFromNumber(value: number, width: number): string {
+  let digits = '';
+  let rest = Math.max(Math.floor(value), 0);
+  for (let i = 0; i < width; i++) {
+    digits = DIGITS[rest % DIGITS.length] + digits;
+    rest = Math.floor(rest / DIGITS.length);
+  }
+  return `${digits}V`;
+}
\ No newline at end of file
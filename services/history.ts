@@ -0,0 +1,50 @@
+// Undo history entries and the helpers for turning todo mutations into
+// operations that can be reversed
+import type { NewTodo, Todo, TodoChanges } from './todoService';
+
+export type HistoryOperation =
+  | { type: 'create'; todo: Todo }
+  | { type: 'update'; id: number; before: TodoChanges; after: TodoChanges };
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  operations: HistoryOperation[];
+}
+
+// What an unset field is restored to, since undefined is dropped from request
+// bodies and would leave the newer value in place
+const EMPTY_VALUES: TodoChanges = {
+  description: '',
+  dueAt: null,
+  priority: 'normal',
+  tags: [],
+  subtasks: [],
+  completeWithSubtasks: false,
+  recurrence: null,
+  reminders: [],
+  listId: null,
+  starred: false,
+  deletedAt: null,
+  position: null,
+  status: 'todo',
+};
+
+// The values `changes` is about to overwrite on `todo`
+export function changesBefore(todo: Todo, changes: TodoChanges): TodoChanges {
+  const before: Record<string, unknown> = {};
+  for (const key of Object.keys(changes) as (keyof TodoChanges)[]) {
+    before[key] = todo[key] ?? EMPTY_VALUES[key] ?? null;
+  }
+  return before as TodoChanges;
+}
+
+// A removed todo as a create payload, so redoing its add can bring it back
+export function toNewTodo(todo: Todo): NewTodo {
+  const { id, syncStatus, lastModified, ...newTodo } = todo;
+  return newTodo;
+}
+
+export function createHistoryEntry(label: string, operations: HistoryOperation[]): HistoryEntry {
+  return { id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, label, operations };
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+// iCalendar (RFC 5545) output for todos with a due date, as VTODO entries
+// for task apps or VEVENT entries for calendars that ignore tasks
+import type { Reminder, Todo, TodoPriority } from './todoService';
+import { toRRule } from './recurrence';
+import { todoStatus } from './todoStatus';
+
+export type ICalComponent = 'VTODO' | 'VEVENT';
+
+export interface ICalOptions {
+  name: string;
+  component: ICalComponent;
+  // Host name that keeps UIDs unique across installations
+  domain: string;
+}
+
+// Calendars need events to take up some time; a due time does not
+const EVENT_MINUTES = 30;
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITIES: Record<TodoPriority, number> = { urgent: 1, high: 3, normal: 5, low: 9 };
+
+const VTODO_STATUSES = { todo: 'NEEDS-ACTION', in_progress: 'IN-PROCESS', blocked: 'NEEDS-ACTION', done: 'COMPLETED' };
+
+// UTC date-time as YYYYMMDDTHHMMSSZ
+const formatDate = (date: Date | string): string =>
+  new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function alarm(todo: Todo, reminder: Reminder): string[] {
+  const trigger =
+    reminder.kind === 'before_due'
+      ? `TRIGGER;RELATED=START:-PT${reminder.minutesBefore ?? 0}M`
+      : reminder.at && `TRIGGER;VALUE=DATE-TIME:${formatDate(reminder.at)}`;
+  if (!trigger) return [];
+  return ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(todo.todo)}`, trigger, 'END:VALARM'];
+}
+
+function component(todo: Todo, options: ICalOptions, stamp: string): string[] {
+  const due = new Date(todo.dueAt!);
+  const rrule = todo.recurrence ? toRRule(todo.recurrence) : null;
+  const lines = [
+    `BEGIN:${options.component}`,
+    `UID:todo-${todo.id}@${options.domain}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(todo.todo)}`,
+  ];
+
+  if (options.component === 'VTODO') {
+    lines.push(`DTSTART:${formatDate(due)}`, `DUE:${formatDate(due)}`, `STATUS:${VTODO_STATUSES[todoStatus(todo)]}`);
+    if (todo.completed) lines.push('PERCENT-COMPLETE:100');
+  } else {
+    lines.push(
+      `DTSTART:${formatDate(due)}`,
+      `DTEND:${formatDate(new Date(due.getTime() + EVENT_MINUTES * 60 * 1000))}`,
+      'TRANSP:TRANSPARENT'
+    );
+  }
+
+  if (todo.description) lines.push(`DESCRIPTION:${escapeText(todo.description)}`);
+  if (todo.priority) lines.push(`PRIORITY:${ICAL_PRIORITIES[todo.priority]}`);
+  if (todo.tags?.length) lines.push(`CATEGORIES:${todo.tags.map(escapeText).join(',')}`);
+  if (rrule) lines.push(`RRULE:${rrule}`);
+  if (todo.createdAt) lines.push(`CREATED:${formatDate(todo.createdAt)}`);
+  if (todo.updatedAt) lines.push(`LAST-MODIFIED:${formatDate(todo.updatedAt)}`);
+  if (!todo.completed) todo.reminders?.forEach((reminder) => lines.push(...alarm(todo, reminder)));
+
+  lines.push(`END:${options.component}`);
+  return lines;
+}
+
+// A VCALENDAR holding every todo that has a due date and is not in the trash
+export function toICalendar(todos: Todo[], options: ICalOptions): string {
+  const stamp = formatDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${options.domain}//Todos//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...todos.filter((todo) => todo.dueAt && !todo.deletedAt).flatMap((todo) => component(todo, options, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+// Named todo lists ("Work", "Home", ...), stored in IndexedDB on this device
+import { db, TodoListRecord } from './db';
+import { INBOX_LIST_ID, TodoListParams } from './todoQuery';
+
+class ListService {
+  // All lists in sidebar order
+  async getAll(): Promise<TodoListRecord[]> {
+    return db.lists.orderBy('position').toArray();
+  }
+
+  async get(id: string): Promise<TodoListRecord | undefined> {
+    return db.lists.get(id);
+  }
+
+  // Create a list at the end of the sidebar
+  async create(name: string, icon?: string): Promise<TodoListRecord> {
+    const last = await db.lists.orderBy('position').last();
+    const list: TodoListRecord = {
+      id: `list-${Date.now()}`,
+      name: name.trim(),
+      icon,
+      position: (last?.position ?? 0) + 1,
+      createdAt: Date.now(),
+    };
+    await db.lists.add(list);
+    return list;
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    await db.lists.update(id, { name: name.trim() });
+  }
+
+  // Delete a list. Its todos are moved by the caller, which knows whether
+  // the change can be sent now or has to be queued.
+  async delete(id: string): Promise<void> {
+    await db.lists.delete(id);
+  }
+
+  // Inbox queries also cover todos whose list was never created on this
+  // device, e.g. one made on another device, so no todo is left unreachable
+  async scope<T extends Pick<TodoListParams, 'listId' | 'knownListIds'>>(params: T): Promise<T> {
+    if (params.listId !== INBOX_LIST_ID) return params;
+    return { ...params, knownListIds: (await db.lists.toCollection().primaryKeys()) as string[] };
+  }
+
+  // Open todo counts per list id (INBOX_LIST_ID for todos without a known
+  // list), from the local cache
+  async openCounts(): Promise<Record<string, number>> {
+    const known = new Set((await db.lists.toCollection().primaryKeys()) as string[]);
+    const counts: Record<string, number> = {};
+    await db.todos
+      .filter((todo) => !todo.completed && !todo.deletedAt)
+      .each((todo) => {
+        const key = todo.listId && known.has(todo.listId) ? todo.listId : INBOX_LIST_ID;
+        counts[key] = (counts[key] ?? 0) + 1;
+      });
+    return counts;
+  }
+}
+
+export const listService = new ListService();
+export default ListService;
\ No newline at end of file
@@ -8,6 +8,7 @@ export interface TodoUpdate {
   type: 'create' | 'update' | 'delete' | 'toggle';
   todo: any;
   userId: string;
+  userName?: string;
   timestamp: number;
 }
 
@@ -138,7 +139,8 @@ class RealtimeService {
   }
 
   // Emit todo changes
-  emitTodoChange(type: TodoUpdate['type'], todo: any): void {
+  // Changes carry the user's id and name, never their auth token
+  emitTodoChange(type: TodoUpdate['type'], todo: any, user?: { id: string; name?: string }): void {
     if (!this.socket?.connected) {
       console.warn('Socket not connected, change not emitted');
       return;
@@ -147,7 +149,8 @@ class RealtimeService {
     const update: TodoUpdate = {
       type,
       todo,
-      userId: authService.getToken() || 'anonymous',
+      userId: user?.id ?? 'anonymous',
+      userName: user?.name,
       timestamp: Date.now(),
     };
 
@@ -0,0 +1,188 @@
+// Recurrence rules: computing occurrences, spawning the next todo of a series
+// and describing rules for people and for iCalendar
+import type { NewTodo, Recurrence, Todo, TodoChanges } from './todoService';
+import { withStatus } from './todoStatus';
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Guards the occurrence search against rules that can never match
+const MAX_STEPS = 366 * 2;
+
+// Local calendar date as YYYY-MM-DD, used to record skipped occurrences
+export function dateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const startOfWeek = (date: Date): Date => {
+  const start = addDays(date, -date.getDay());
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// The occurrence right after `from`, ignoring skipped dates
+function stepOccurrence(rule: Recurrence, from: Date): Date {
+  switch (rule.frequency) {
+    case 'daily':
+    case 'after_completion':
+      return addDays(from, rule.interval);
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+      const anchorWeek = startOfWeek(from).getTime();
+      for (let candidate = addDays(from, 1), step = 0; step < MAX_STEPS; candidate = addDays(candidate, 1), step++) {
+        const weeksApart = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * DAY));
+        if (weeksApart % rule.interval === 0 && weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return addDays(from, 7 * rule.interval);
+    }
+    case 'monthly': {
+      const day = rule.dayOfMonth ?? from.getDate();
+      for (const offset of [0, rule.interval]) {
+        const year = from.getFullYear();
+        const month = from.getMonth() + offset;
+        const candidate = new Date(from);
+        candidate.setDate(1);
+        candidate.setFullYear(year, month, Math.min(day, daysInMonth(year, month)));
+        if (candidate > from) return candidate;
+      }
+      return addDays(from, 30 * rule.interval);
+    }
+  }
+}
+
+// Next occurrence after `from`, skipping dates the user skipped
+export function nextOccurrence(rule: Recurrence, from: Date): Date {
+  const skipped = new Set(rule.skipped ?? []);
+  let candidate = stepOccurrence(rule, from);
+  for (let step = 0; skipped.has(dateKey(candidate)) && step < MAX_STEPS; step++) {
+    candidate = stepOccurrence(rule, candidate);
+  }
+  return candidate;
+}
+
+// Upcoming occurrences after the todo's own due date, including skipped ones
+// so they can be restored. Empty for after_completion rules, which depend on
+// when the todo gets done.
+export function upcomingOccurrences(todo: Todo, count = 5): { date: Date; skipped: boolean }[] {
+  const rule = todo.recurrence;
+  if (!rule || rule.frequency === 'after_completion') return [];
+
+  const skipped = new Set(rule.skipped ?? []);
+  const occurrences: { date: Date; skipped: boolean }[] = [];
+  let current = todo.dueAt ? new Date(todo.dueAt) : new Date();
+  while (occurrences.length < count) {
+    current = stepOccurrence(rule, current);
+    occurrences.push({ date: current, skipped: skipped.has(dateKey(current)) });
+  }
+  return occurrences;
+}
+
+// The todo that continues the series once `todo` is completed
+export function nextOccurrenceTodo(todo: Todo, completedAt = new Date()): NewTodo {
+  const rule = todo.recurrence!;
+  const from = rule.frequency === 'after_completion' || !todo.dueAt ? completedAt : new Date(todo.dueAt);
+  const dueAt = nextOccurrence(rule, from);
+  const today = dateKey(new Date());
+
+  return {
+    todo: todo.todo,
+    completed: false,
+    userId: todo.userId,
+    description: todo.description,
+    dueAt: dueAt.toISOString(),
+    priority: todo.priority,
+    tags: todo.tags,
+    listId: todo.listId,
+    starred: todo.starred,
+    subtasks: todo.subtasks?.map((subtask) => ({ ...subtask, completed: false })),
+    completeWithSubtasks: todo.completeWithSubtasks,
+    // Fixed-time reminders belong to this occurrence only
+    reminders: todo.reminders?.filter((reminder) => reminder.kind === 'before_due'),
+    recurrence: { ...rule, skipped: rule.skipped?.filter((date) => date >= today) },
+  };
+}
+
+// Completing a recurring todo hands its rule over to a freshly spawned next
+// occurrence, so completing it again later does not spawn a second one. The
+// board status is kept in step with completion first, so moving a card to
+// Done completes it like ticking the checkbox does.
+export function applyCompletion(todo: Todo, input: TodoChanges): { changes: TodoChanges; next?: NewTodo } {
+  const changes = withStatus(todo, input);
+  if (changes.completed !== true || todo.completed || !todo.recurrence) {
+    return { changes };
+  }
+  return {
+    changes: { ...changes, recurrence: null },
+    next: nextOccurrenceTodo({ ...todo, ...changes }),
+  };
+}
+
+// Move the todo itself on to its next occurrence without completing it
+export function skipOccurrence(todo: Todo): TodoChanges {
+  const rule = todo.recurrence;
+  if (!rule) return {};
+  const from = todo.dueAt ? new Date(todo.dueAt) : new Date();
+  return { dueAt: nextOccurrence(rule, from).toISOString() };
+}
+
+// Toggle whether an upcoming occurrence is skipped
+export function toggleSkipped(todo: Todo, date: Date): TodoChanges {
+  const rule = todo.recurrence;
+  if (!rule) return {};
+  const key = dateKey(date);
+  const skipped = rule.skipped ?? [];
+  return {
+    recurrence: {
+      ...rule,
+      skipped: skipped.includes(key) ? skipped.filter((d) => d !== key) : [...skipped, key].sort(),
+    },
+  };
+}
+
+export function describeRecurrence(rule: Recurrence): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return every('day');
+    case 'weekly': {
+      const days = (rule.weekdays ?? []).map((day) => WEEKDAY_NAMES[day]).join(', ');
+      return days ? `${every('week')} on ${days}` : every('week');
+    }
+    case 'monthly':
+      return rule.dayOfMonth ? `${every('month')} on day ${rule.dayOfMonth}` : every('month');
+    case 'after_completion':
+      return `${rule.interval} day${rule.interval === 1 ? '' : 's'} after completion`;
+  }
+}
+
+// RRULE value for iCalendar, or null when the rule has no RRULE equivalent
+export function toRRule(rule: Recurrence): string | null {
+  const parts: string[] = [];
+  switch (rule.frequency) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      if (rule.dayOfMonth) parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+      break;
+    case 'after_completion':
+      return null;
+  }
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  return parts.join(';');
+}
\ No newline at end of file
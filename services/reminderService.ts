@@ -0,0 +1,89 @@
+// Works out which todo reminders are due and records their delivery locally
+import { db } from './db';
+import type { Reminder, Todo } from './todoService';
+
+// Reminders missed while the app was closed still fire, unless they are older than this
+const MISSED_REMINDER_WINDOW = 24 * 60 * 60 * 1000;
+
+export interface DueReminder {
+  key: string;
+  todo: Todo;
+  reminder: Reminder;
+  triggerAt: number;
+}
+
+export function createReminder(kind: Reminder['kind']): Reminder {
+  return {
+    id: `reminder-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    minutesBefore: kind === 'before_due' ? 15 : undefined,
+  };
+}
+
+// When a reminder should fire, or null when it cannot (e.g. no due date)
+export function reminderTriggerTime(todo: Todo, reminder: Reminder): number | null {
+  if (reminder.kind === 'absolute') {
+    return reminder.at ? Date.parse(reminder.at) : null;
+  }
+  if (!todo.dueAt) return null;
+  return Date.parse(todo.dueAt) - (reminder.minutesBefore ?? 0) * 60 * 1000;
+}
+
+export function describeReminder(todo: Todo, reminder: Reminder): string {
+  if (reminder.kind === 'before_due') {
+    const minutes = reminder.minutesBefore ?? 0;
+    if (minutes === 0) return 'When due';
+    if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day(s) before due`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour(s) before due`;
+    return `${minutes} min before due`;
+  }
+  const triggerAt = reminderTriggerTime(todo, reminder);
+  return triggerAt ? new Date(triggerAt).toLocaleString() : 'No time set';
+}
+
+class ReminderService {
+  // Reminders of open todos that are due now and have not fired for their
+  // current trigger time, or whose snooze has run out
+  async collectDue(todos: Todo[], now = Date.now()): Promise<DueReminder[]> {
+    const due: DueReminder[] = [];
+
+    for (const todo of todos) {
+      if (todo.completed || todo.deletedAt || !todo.reminders?.length) continue;
+
+      for (const reminder of todo.reminders) {
+        const triggerAt = reminderTriggerTime(todo, reminder);
+        if (triggerAt === null || triggerAt > now) continue;
+
+        const key = `${todo.id}:${reminder.id}`;
+        const state = await db.reminderState.get(key);
+        const alreadyFired = state?.triggerAt === triggerAt;
+
+        if (alreadyFired) {
+          if (state.snoozedUntil && state.snoozedUntil <= now) due.push({ key, todo, reminder, triggerAt });
+        } else if (now - triggerAt <= MISSED_REMINDER_WINDOW) {
+          due.push({ key, todo, reminder, triggerAt });
+        }
+      }
+    }
+
+    return due;
+  }
+
+  // Record that a reminder was shown, clearing any snooze
+  async markFired(due: DueReminder): Promise<void> {
+    await db.reminderState.put({
+      key: due.key,
+      todoId: due.todo.id,
+      triggerAt: due.triggerAt,
+      firedAt: Date.now(),
+    });
+  }
+
+  // Show the reminder again after the given number of minutes
+  async snooze(due: DueReminder, minutes: number): Promise<void> {
+    await db.reminderState.update(due.key, { snoozedUntil: Date.now() + minutes * 60 * 1000 });
+  }
+}
+
+export const reminderService = new ReminderService();
+export default ReminderService;
\ No newline at end of file
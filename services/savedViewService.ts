@@ -0,0 +1,104 @@
+// Saved views: named search, filter, sort and page size combinations. Built-in
+// views are fixed; custom ones are stored in IndexedDB per user.
+import { db, SavedViewRecord } from './db';
+import type { TodoSort, TodoStatusFilter } from './todoQuery';
+
+export const PAGE_SIZES = [10, 25, 50];
+
+export interface SavedView {
+  id: string;
+  name: string;
+  icon: string;
+  search: string;
+  status: TodoStatusFilter;
+  sortBy: TodoSort;
+  pageSize: number;
+  tag?: string;
+  builtIn?: boolean;
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'search' | 'status' | 'sortBy' | 'pageSize' | 'tag'>;
+
+export const BUILT_IN_VIEWS: SavedView[] = [
+  {
+    id: 'today',
+    name: 'Today',
+    icon: '📅',
+    search: 'is:open',
+    status: 'due_today',
+    sortBy: 'due_asc',
+    pageSize: 25,
+    builtIn: true,
+  },
+  {
+    id: 'overdue',
+    name: 'Overdue',
+    icon: '⏰',
+    search: '',
+    status: 'overdue',
+    sortBy: 'due_asc',
+    pageSize: 25,
+    builtIn: true,
+  },
+  {
+    id: 'starred',
+    name: 'Starred',
+    icon: '⭐',
+    search: 'is:starred is:open',
+    status: 'all',
+    sortBy: 'priority_desc',
+    pageSize: 25,
+    builtIn: true,
+  },
+];
+
+// Link that opens the todo list with the view applied
+export function viewHref(view: SavedView): string {
+  const query = new URLSearchParams({ view: view.id });
+  if (view.search) query.set('q', view.search);
+  if (view.status !== 'all') query.set('filter', view.status);
+  if (view.tag) query.set('tag', view.tag);
+  query.set('sort', view.sortBy);
+  query.set('size', String(view.pageSize));
+  return `/?${query}`;
+}
+
+const toSavedView = (record: SavedViewRecord): SavedView => ({
+  id: record.id,
+  name: record.name,
+  icon: '🔖',
+  search: record.search,
+  status: record.status,
+  sortBy: record.sortBy,
+  pageSize: record.pageSize,
+  tag: record.tag,
+});
+
+class SavedViewService {
+  // The user's custom views in the order they were saved
+  async getAll(userId: string): Promise<SavedView[]> {
+    const records = await db.savedViews.where('userId').equals(userId).sortBy('position');
+    return records.map(toSavedView);
+  }
+
+  async create(userId: string, input: SavedViewInput): Promise<SavedView> {
+    const existing = await db.savedViews.where('userId').equals(userId).count();
+    const record: SavedViewRecord = {
+      ...input,
+      id: `view-${Date.now()}`,
+      userId,
+      name: input.name.trim(),
+      position: existing + 1,
+      createdAt: Date.now(),
+    };
+    await db.savedViews.add(record);
+    return toSavedView(record);
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.savedViews.delete(id);
+  }
+}
+
+export const savedViewService = new SavedViewService();
+export default SavedViewService;
\ No newline at end of file
@@ -0,0 +1,179 @@
+// Runtime validation schemas for API payloads
+import { z } from 'zod';
+
+// Raised when an API responds with a payload that does not match its schema
+export class ApiValidationError extends Error {
+  readonly source: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(source: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Unexpected response from ${source}: ${summary}`);
+    this.name = 'ApiValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+// Parse a payload, throwing ApiValidationError instead of a raw ZodError
+export function parseResponse<S extends z.ZodTypeAny>(schema: S, data: unknown, source: string): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiValidationError(source, result.error.issues);
+  }
+  return result.data;
+}
+
+// Todos
+export const TODO_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+
+export const todoPrioritySchema = z.enum(TODO_PRIORITIES);
+
+// Board column. Done always goes together with completed: true.
+export const TODO_STATUSES = ['todo', 'in_progress', 'blocked', 'done'] as const;
+
+export const todoStatusSchema = z.enum(TODO_STATUSES);
+
+export const subtaskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  completed: z.boolean(),
+});
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'after_completion'] as const;
+
+// Repeat rule modelled on iCalendar RRULEs. after_completion has no RRULE
+// equivalent: the next occurrence is due `interval` days after completion.
+export const recurrenceSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).default(1),
+  // 0 = Sunday ... 6 = Saturday, for weekly rules
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  // For monthly rules; clamped to the last day of shorter months
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  // Skipped occurrences as YYYY-MM-DD dates
+  skipped: z.array(z.string()).optional(),
+});
+
+// Fires at a fixed time, or a number of minutes before the todo is due
+export const reminderSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['absolute', 'before_due']),
+  at: z.string().optional(),
+  minutesBefore: z.number().int().min(0).optional(),
+});
+
+export const todoSchema = z.object({
+  id: z.number(),
+  todo: z.string(),
+  completed: z.boolean(),
+  // Id of the owning user, a number or a string like userSchema's id
+  userId: z.union([z.number(), z.string()]),
+  description: z.string().optional(),
+  dueAt: z.string().nullable().optional(),
+  priority: todoPrioritySchema.optional(),
+  status: todoStatusSchema.optional(),
+  tags: z.array(z.string()).optional(),
+  subtasks: z.array(subtaskSchema).optional(),
+  completeWithSubtasks: z.boolean().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  reminders: z.array(reminderSchema).optional(),
+  listId: z.string().nullable().optional(),
+  starred: z.boolean().optional(),
+  // Fractional index key for the manual sort order
+  position: z.string().nullable().optional(),
+  // Set while the todo is in the trash
+  deletedAt: z.string().nullable().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  lastModified: z.number().optional(),
+  syncStatus: z.enum(['synced', 'pending', 'conflict']).optional(),
+});
+
+export const todoListSchema = z.union([
+  z.array(todoSchema),
+  z.object({
+    todos: z.array(todoSchema).default([]),
+    total: z.number().optional(),
+    skip: z.number().optional(),
+    limit: z.number().optional(),
+  }),
+]);
+
+export const newTodoSchema = z.object({
+  todo: z.string().trim().min(1),
+  completed: z.boolean().default(false),
+  userId: z.union([z.number(), z.string()]).default(1),
+  description: z.string().optional(),
+  dueAt: z.string().nullable().optional(),
+  priority: todoPrioritySchema.optional(),
+  status: todoStatusSchema.optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  subtasks: z.array(subtaskSchema).optional(),
+  completeWithSubtasks: z.boolean().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  reminders: z.array(reminderSchema).optional(),
+  listId: z.string().nullable().optional(),
+  starred: z.boolean().optional(),
+  position: z.string().nullable().optional(),
+});
+
+export const todoChangesSchema = todoSchema.omit({ id: true }).partial();
+
+// Auth
+export const userSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  email: z.string(),
+  name: z.string().optional(),
+  username: z.string().optional(),
+  avatar: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+export const authResponseSchema = z.object({
+  user: userSchema,
+  token: z.string(),
+  refreshToken: z.string().optional(),
+  expiresIn: z.number().optional(),
+});
+
+export const refreshTokenResponseSchema = z.object({
+  token: z.string(),
+});
+
+// OpenAI chat completions
+export const chatCompletionResponseSchema = z.object({
+  id: z.string(),
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          role: z.literal('assistant'),
+          content: z.string(),
+        }),
+        finish_reason: z.string().nullable(),
+      })
+    )
+    .min(1),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number(),
+  }),
+});
+
+export const chatCompletionChunkSchema = z.object({
+  id: z.string().optional(),
+  choices: z.array(
+    z.object({
+      delta: z.object({
+        role: z.string().optional(),
+        content: z.string().nullable().optional(),
+      }),
+      finish_reason: z.string().nullable().optional(),
+    })
+  ),
+});
\ No newline at end of file
@@ -0,0 +1,219 @@
+// The search box query language: free text plus filters such as
+// `is:done tag:work priority:>=high due:<2026-11-01 "exact phrase" -ignore`
+import { TODO_PRIORITIES } from './schemas';
+import type { TodoPriority } from './todoService';
+
+export type SearchComparator = '=' | '<' | '<=' | '>' | '>=';
+
+export const IS_VALUES = ['done', 'open', 'overdue', 'today', 'starred', 'recurring', 'pending'] as const;
+export type IsValue = (typeof IS_VALUES)[number];
+
+const DUE_KEYWORDS = ['today', 'tomorrow', 'yesterday', 'none'];
+const SEARCH_KEYS = ['is', 'tag', 'priority', 'due'] as const;
+type SearchKey = (typeof SEARCH_KEYS)[number];
+
+export type SearchTerm =
+  | { type: 'text'; value: string; exact: boolean; negated: boolean }
+  | { type: 'is'; value: IsValue; negated: boolean }
+  | { type: 'tag'; value: string; negated: boolean }
+  | { type: 'priority'; op: SearchComparator; value: TodoPriority; negated: boolean }
+  // value is a YYYY-MM-DD date or one of DUE_KEYWORDS
+  | { type: 'due'; op: SearchComparator; value: string; negated: boolean };
+
+// Character range of the offending token, for highlighting in the input
+export interface SearchQueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  errors: SearchQueryError[];
+}
+
+export interface SearchSuggestion {
+  // Replacement for the token under the cursor
+  value: string;
+  label: string;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// Split on whitespace, keeping quoted sections (including key:"quoted values") together
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < input.length && !isSpace(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        i = close === -1 ? input.length : close + 1;
+      } else {
+        i++;
+      }
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i });
+  }
+  return tokens;
+}
+
+// Strip surrounding quotes; null when the closing quote is missing
+const unquote = (value: string): string | null => {
+  if (!value.startsWith('"')) return value;
+  return value.length > 1 && value.endsWith('"') ? value.slice(1, -1) : null;
+};
+
+const splitComparator = (value: string): { op: SearchComparator; rest: string } => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  return { op: (match[1] as SearchComparator) || '=', rest: match[2] };
+};
+
+const isValidDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+function parseFilter(key: SearchKey, raw: string, negated: boolean): SearchTerm | string {
+  switch (key) {
+    case 'is': {
+      const value = raw.toLowerCase();
+      if (!(IS_VALUES as readonly string[]).includes(value)) return `is: expects one of ${IS_VALUES.join(', ')}`;
+      return { type: 'is', value: value as IsValue, negated };
+    }
+    case 'tag':
+      return { type: 'tag', value: raw, negated };
+    case 'priority': {
+      const { op, rest } = splitComparator(raw.toLowerCase());
+      if (!(TODO_PRIORITIES as readonly string[]).includes(rest)) {
+        return `priority: expects one of ${TODO_PRIORITIES.join(', ')}`;
+      }
+      return { type: 'priority', op, value: rest as TodoPriority, negated };
+    }
+    case 'due': {
+      const { op, rest } = splitComparator(raw.toLowerCase());
+      if (!DUE_KEYWORDS.includes(rest) && !isValidDate(rest)) {
+        return 'due: expects a YYYY-MM-DD date, today, tomorrow, yesterday or none';
+      }
+      if (rest === 'none' && op !== '=') return 'due:none cannot be compared';
+      return { type: 'due', op, value: rest, negated };
+    }
+  }
+}
+
+// Parse a search box query. Tokens with errors are reported and left out of
+// the terms, so the rest of the query still applies while the user types.
+export function parseSearchQuery(input = ''): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const token of tokenize(input)) {
+    const fail = (message: string) => errors.push({ start: token.start, end: token.end, message });
+    const negated = token.text.length > 1 && token.text.startsWith('-');
+    const body = negated ? token.text.slice(1) : token.text;
+
+    if (body.startsWith('"')) {
+      const value = unquote(body);
+      if (value === null) fail('Missing closing quote');
+      else if (value.trim()) terms.push({ type: 'text', value, exact: true, negated });
+      continue;
+    }
+
+    const filter = body.match(/^([a-zA-Z]+):(.*)$/);
+    if (!filter) {
+      terms.push({ type: 'text', value: body, exact: false, negated });
+      continue;
+    }
+
+    const key = filter[1].toLowerCase() as SearchKey;
+    if (!SEARCH_KEYS.includes(key)) {
+      fail(`Unknown filter "${filter[1]}:" (try ${SEARCH_KEYS.map((k) => `${k}:`).join(', ')})`);
+      continue;
+    }
+    const value = unquote(filter[2]);
+    if (value === null) {
+      fail('Missing closing quote');
+      continue;
+    }
+    if (!value) {
+      fail(`Missing a value after ${key}:`);
+      continue;
+    }
+
+    const term = parseFilter(key, value, negated);
+    if (typeof term === 'string') fail(term);
+    else terms.push(term);
+  }
+
+  return { terms, errors };
+}
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Completions for the token under the cursor: filter keys while typing a
+// word, values once a key and colon are typed
+export function suggestCompletions(
+  input: string,
+  cursor: number,
+  tags: string[] = []
+): { start: number; end: number; suggestions: SearchSuggestion[] } {
+  let start = cursor;
+  while (start > 0 && !isSpace(input[start - 1])) start--;
+  let end = cursor;
+  while (end < input.length && !isSpace(input[end])) end++;
+
+  const token = input.slice(start, cursor);
+  const prefix = token.startsWith('-') ? '-' : '';
+  const body = token.slice(prefix.length);
+  const none = { start, end, suggestions: [] };
+  if (!body || body.startsWith('"')) return none;
+
+  const colon = body.indexOf(':');
+  if (colon === -1) {
+    const partial = body.toLowerCase();
+    return {
+      start,
+      end,
+      suggestions: SEARCH_KEYS.filter((key) => key.startsWith(partial)).map((key) => ({
+        value: `${prefix}${key}:`,
+        label: `${key}:`,
+      })),
+    };
+  }
+
+  const key = body.slice(0, colon).toLowerCase() as SearchKey;
+  if (!SEARCH_KEYS.includes(key)) return none;
+  const rawValue = body.slice(colon + 1);
+  // Keep a typed comparator as-is in the completion
+  const [, comparator = '', rest] =
+    key === 'priority' || key === 'due' ? rawValue.match(/^(<=|>=|<|>|=)?(.*)$/)! : ['', '', rawValue];
+  const partial = rest.replace(/^"/, '').toLowerCase();
+
+  const values: Record<SearchKey, string[]> = {
+    is: [...IS_VALUES],
+    tag: tags,
+    priority: [...TODO_PRIORITIES],
+    due: comparator ? DUE_KEYWORDS.filter((keyword) => keyword !== 'none') : DUE_KEYWORDS,
+  };
+
+  return {
+    start,
+    end,
+    suggestions: values[key]
+      .filter((value) => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .slice(0, 8)
+      .map((value) => ({
+        value: `${prefix}${key}:${comparator}${quoteIfNeeded(value)} `,
+        label: `${key}:${comparator}${value}`,
+      })),
+  };
+}
\ No newline at end of file
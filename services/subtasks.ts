@@ -0,0 +1,54 @@
+// Helpers for editing the checklist of subtasks inside a todo
+import type { Subtask, Todo, TodoChanges } from './todoService';
+
+export function createSubtask(title: string): Subtask {
+  return {
+    id: `subtask-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: title.trim(),
+    completed: false,
+  };
+}
+
+export function subtaskProgress(todo: Todo): { done: number; total: number } {
+  const subtasks = todo.subtasks ?? [];
+  return { done: subtasks.filter((subtask) => subtask.completed).length, total: subtasks.length };
+}
+
+// Changes that replace the subtasks of a todo, also completing the todo when
+// it opted in and the last open subtask was just checked off
+export function withSubtasks(todo: Todo, subtasks: Subtask[]): TodoChanges {
+  const allDone = subtasks.length > 0 && subtasks.every((subtask) => subtask.completed);
+  if (todo.completeWithSubtasks && allDone && !todo.completed) {
+    return { subtasks, completed: true };
+  }
+  return { subtasks };
+}
+
+export function addSubtask(todo: Todo, title: string): TodoChanges {
+  return withSubtasks(todo, [...(todo.subtasks ?? []), createSubtask(title)]);
+}
+
+export function toggleSubtask(todo: Todo, subtaskId: string): TodoChanges {
+  return withSubtasks(
+    todo,
+    (todo.subtasks ?? []).map((subtask) =>
+      subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+    )
+  );
+}
+
+export function removeSubtask(todo: Todo, subtaskId: string): TodoChanges {
+  return withSubtasks(todo, (todo.subtasks ?? []).filter((subtask) => subtask.id !== subtaskId));
+}
+
+// Move a subtask one or more places up (negative offset) or down
+export function moveSubtask(todo: Todo, subtaskId: string, offset: number): TodoChanges {
+  const subtasks = [...(todo.subtasks ?? [])];
+  const from = subtasks.findIndex((subtask) => subtask.id === subtaskId);
+  const to = Math.min(Math.max(from + offset, 0), subtasks.length - 1);
+  if (from === -1 || from === to) return { subtasks: todo.subtasks };
+
+  const [moved] = subtasks.splice(from, 1);
+  subtasks.splice(to, 0, moved);
+  return { subtasks };
+}
\ No newline at end of file
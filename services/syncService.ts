@@ -0,0 +1,312 @@
+// Offline sync queue: persists queued todo mutations and replays them in order
+import { db, BatchOperation, SyncQueueItem, TodoConflict } from './db';
+import { todoService, Todo, TodoChanges, TodoRequestOptions } from './todoService';
+import { TodoBackendError } from './backends/types';
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Queued edits wait for a backend that actually stores them
+const REPLAY_OPTIONS: TodoRequestOptions = { persistentOnly: true };
+
+// Fields compared when detecting and merging conflicting edits
+export const CONFLICT_FIELDS = [
+  'todo',
+  'completed',
+  'description',
+  'dueAt',
+  'priority',
+  'tags',
+  'subtasks',
+  'recurrence',
+  'listId',
+  'starred',
+  'deletedAt',
+  'position',
+  'status',
+] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+// Compare field values by content so tag arrays and missing values match up
+export const fieldEquals = <K extends keyof Todo>(a: Todo[K], b: Todo[K]): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Set one field of a todo, for copying fields across by name
+export function assignField<K extends keyof Todo>(todo: Todo, field: K, value: Todo[K]): void {
+  todo[field] = value;
+}
+
+export type NewSyncQueueItem = Pick<SyncQueueItem, 'action' | 'data' | 'base'>;
+
+export interface SyncResult {
+  synced: number;
+  // Items still waiting to be replayed, not counting failed ones
+  remaining: number;
+  failed: number;
+  nextRetryAt?: number;
+}
+
+class SyncService {
+  private isProcessing = false;
+
+  // Load the persisted queue in replay order
+  async getQueue(): Promise<SyncQueueItem[]> {
+    return db.syncQueue.orderBy('id').toArray();
+  }
+
+  // Persist a new queue item
+  async enqueue(item: NewSyncQueueItem): Promise<SyncQueueItem> {
+    const queued: SyncQueueItem = {
+      ...item,
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    queued.id = await db.syncQueue.add(queued);
+    return queued;
+  }
+
+  // Drop a queue item without replaying it
+  async remove(id: number): Promise<void> {
+    await db.syncQueue.delete(id);
+  }
+
+  // Give up on a failed item. The local copies it would have written are
+  // dropped too, so the next fetch brings back the server's version.
+  async discard(item: SyncQueueItem): Promise<void> {
+    const operations: Pick<SyncQueueItem, 'action' | 'data'>[] =
+      item.action === 'batch' ? item.data.operations : [item];
+    const ids = operations.filter((op) => op.action !== 'delete').map((op) => op.data.id as number);
+
+    await db.transaction('rw', db.todos, db.syncQueue, async () => {
+      await db.syncQueue.delete(item.id!);
+      await db.todos
+        .where('id')
+        .anyOf(ids)
+        .filter((todo) => todo.syncStatus === 'pending')
+        .delete();
+    });
+  }
+
+  // Load todos waiting for the user to pick a version
+  async getConflicts(): Promise<TodoConflict[]> {
+    return db.conflicts.orderBy('detectedAt').toArray();
+  }
+
+  // Settle a conflict with the version chosen by the user
+  async resolveConflict(todoId: number, resolved: Todo): Promise<Todo> {
+    const conflict = await db.conflicts.get(todoId);
+    if (!conflict) throw new Error(`No conflict recorded for todo ${todoId}`);
+
+    const changes = this.toChanges(resolved);
+    const matchesRemote = CONFLICT_FIELDS.every((field) => fieldEquals(resolved[field], conflict.remote[field]));
+    let result: Todo;
+
+    if (matchesRemote) {
+      result = { ...conflict.remote, syncStatus: 'synced' };
+    } else if (!navigator.onLine) {
+      result = { ...resolved, lastModified: Date.now(), syncStatus: 'pending' };
+      await this.enqueue({ action: 'update', data: result, base: conflict.remote });
+    } else {
+      const updated = await todoService.update(todoId, changes, REPLAY_OPTIONS);
+      result = { ...resolved, ...updated, syncStatus: 'synced' };
+    }
+
+    await db.transaction('rw', db.todos, db.conflicts, async () => {
+      await db.todos.put(result);
+      await db.conflicts.delete(todoId);
+    });
+    return result;
+  }
+
+  // Replay queued items in order. An unreachable backend stops the run and
+  // schedules a retry, so later items never overtake the ones they depend on.
+  // Items the backend rejects are set aside as failed and the rest go on.
+  async process(onItemSynced?: (item: SyncQueueItem) => void): Promise<SyncResult> {
+    if (this.isProcessing) {
+      const queue = await this.getQueue();
+      const failed = queue.filter((item) => item.failedAt).length;
+      return { synced: 0, remaining: queue.length - failed, failed };
+    }
+
+    this.isProcessing = true;
+    let synced = 0;
+
+    try {
+      const queue = await this.getQueue();
+      let failed = queue.filter((item) => item.failedAt).length;
+      const remaining = () => queue.length - synced - failed;
+
+      for (const item of queue) {
+        if (item.failedAt) continue;
+        if (item.nextAttemptAt && item.nextAttemptAt > Date.now()) {
+          return { synced, remaining: remaining(), failed, nextRetryAt: item.nextAttemptAt };
+        }
+
+        try {
+          await this.replay(item);
+          await db.syncQueue.delete(item.id!);
+          synced++;
+          onItemSynced?.(item);
+        } catch (error: any) {
+          const attempts = item.attempts + 1;
+          const lastError = error?.message || String(error);
+
+          if (!(error instanceof TodoBackendError) || !error.isUnavailable) {
+            console.error(`Sync of ${item.action} was rejected:`, error);
+            await db.syncQueue.update(item.id!, { attempts, lastError, failedAt: Date.now() });
+            failed++;
+            continue;
+          }
+
+          const delay = Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+          const nextAttemptAt = Date.now() + delay;
+
+          console.warn(`Sync of ${item.action} failed (attempt ${attempts}):`, error);
+          await db.syncQueue.update(item.id!, { attempts, nextAttemptAt, lastError });
+
+          return { synced, remaining: remaining(), failed, nextRetryAt: nextAttemptAt };
+        }
+      }
+
+      return { synced, remaining: 0, failed };
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  // Send a single queued mutation to the API and reconcile the local cache
+  private async replay(item: SyncQueueItem): Promise<void> {
+    switch (item.action) {
+      case 'create': {
+        const { id: tempId, syncStatus, lastModified, ...newTodo } = item.data as Todo;
+        const created = await todoService.create(newTodo, REPLAY_OPTIONS);
+        await this.mapTempId(tempId, created);
+        return;
+      }
+      case 'update': {
+        let local: Todo = item.data;
+
+        // Compare against the server copy the edit was based on
+        if (item.base) {
+          const remote = await todoService.get(local.id, REPLAY_OPTIONS);
+          const merged = this.mergeFields(item.base, local, remote);
+          if (!merged) {
+            await this.recordConflict(local, remote, item.base);
+            return;
+          }
+          local = merged;
+        }
+
+        const updated = await todoService.update(local.id, this.toChanges(local), REPLAY_OPTIONS);
+        const synced: Todo = { ...local, ...updated, syncStatus: 'synced' };
+        await db.putTodo(synced);
+        await this.rebaseQueued(synced);
+        return;
+      }
+      case 'delete': {
+        await todoService.delete(item.data.id, REPLAY_OPTIONS);
+        await db.removeTodo(item.data.id);
+        return;
+      }
+      case 'batch': {
+        // Drop each operation once it is through, so a retry after a failure
+        // resumes where the batch stopped instead of repeating deletes
+        const operations: BatchOperation[] = [...item.data.operations];
+        while (operations.length > 0) {
+          await this.replay({ ...item, ...operations[0] });
+          operations.shift();
+          await db.syncQueue.update(item.id!, { data: { operations } });
+        }
+        return;
+      }
+    }
+  }
+
+  // Replace a temporary Date.now() id with the id assigned by the server,
+  // both in the cache and in any queue items still pointing at it
+  private async mapTempId(tempId: number, created: Todo): Promise<void> {
+    await db.transaction('rw', db.todos, db.syncQueue, db.activity, async () => {
+      const local = await db.todos.get(tempId);
+      await db.todos.delete(tempId);
+      await db.todos.put({ ...local, ...created, syncStatus: 'synced' });
+      await db.activity.where('todoId').equals(tempId).modify({ todoId: created.id });
+
+      const mapId = (data: any) => (data?.id === tempId ? { ...data, id: created.id } : data);
+      await db.syncQueue
+        .filter((queued) => queued.data?.id === tempId || queued.action === 'batch')
+        .modify((queued) => {
+          queued.data =
+            queued.action === 'batch'
+              ? {
+                  operations: queued.data.operations.map((operation: BatchOperation) => ({
+                    ...operation,
+                    data: mapId(operation.data),
+                  })),
+                }
+              : mapId(queued.data);
+        });
+    });
+  }
+
+  // Three-way merge of a local edit onto the current server copy. Returns
+  // null when both sides changed the same field to different values.
+  private mergeFields(base: Todo, local: Todo, remote: Todo): Todo | null {
+    const merged: Todo = { ...local };
+
+    for (const field of CONFLICT_FIELDS) {
+      const localChanged = !fieldEquals(local[field], base[field]);
+      const remoteChanged = !fieldEquals(remote[field], base[field]);
+
+      if (remoteChanged && !localChanged) {
+        assignField(merged, field, remote[field]);
+      } else if (remoteChanged && localChanged && !fieldEquals(local[field], remote[field])) {
+        return null;
+      }
+    }
+
+    return merged;
+  }
+
+  // Park a conflicting edit until the user resolves it
+  private async recordConflict(local: Todo, remote: Todo, base: Todo): Promise<void> {
+    await db.transaction('rw', db.todos, db.conflicts, async () => {
+      await db.todos.put({ ...local, syncStatus: 'conflict' });
+      await db.conflicts.put({
+        todoId: local.id,
+        local,
+        remote,
+        base,
+        detectedAt: Date.now(),
+      });
+    });
+  }
+
+  // Later queued edits of the same todo were based on our own earlier edit,
+  // so point them at the version the server now holds
+  private async rebaseQueued(synced: Todo): Promise<void> {
+    const rebase = <T extends Pick<SyncQueueItem, 'action' | 'data' | 'base'>>(queued: T): T =>
+      queued.action === 'update' && queued.data?.id === synced.id && !!queued.base
+        ? { ...queued, base: synced }
+        : queued;
+
+    await db.syncQueue
+      .filter((queued) => queued.action === 'update' || queued.action === 'batch')
+      .modify((queued) => {
+        if (queued.action === 'batch') {
+          queued.data = { operations: queued.data.operations.map(rebase) };
+        } else {
+          queued.base = rebase(queued).base;
+        }
+      });
+  }
+
+  // Strip local-only fields before sending an update to the API
+  private toChanges(data: Todo): TodoChanges {
+    const { id, syncStatus, lastModified, ...changes } = data;
+    return changes;
+  }
+}
+
+export const syncService = new SyncService();
+export default SyncService;
\ No newline at end of file
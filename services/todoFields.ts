@@ -0,0 +1,44 @@
+// Display names and readable values for the todo fields shown side by side
+// in the conflict dialog and the activity timeline
+import type { Recurrence, Subtask, TodoStatus } from './todoService';
+import type { ConflictField } from './syncService';
+import { describeRecurrence } from './recurrence';
+import { STATUS_LABELS } from './todoStatus';
+
+export type TodoField = ConflictField | 'userId';
+
+export const FIELD_LABELS: Record<TodoField, string> = {
+  todo: 'Title',
+  completed: 'Status',
+  description: 'Description',
+  dueAt: 'Due',
+  priority: 'Priority',
+  tags: 'Tags',
+  subtasks: 'Subtasks',
+  recurrence: 'Repeats',
+  listId: 'List',
+  starred: 'Starred',
+  deletedAt: 'Trash',
+  position: 'Manual order',
+  status: 'Board column',
+  userId: 'Assignee',
+};
+
+// List ids are left as they are; callers look up the list name
+export const formatFieldValue = (field: TodoField, value: unknown): string => {
+  if (field === 'completed') return value ? 'Completed' : 'Incomplete';
+  if (field === 'starred') return value ? 'Starred' : 'Not starred';
+  if (field === 'status') return STATUS_LABELS[(value as TodoStatus | undefined) ?? 'todo'];
+  if (field === 'position') return value ? `Moved by hand (${value})` : 'Newest first';
+  if (field === 'deletedAt') return value ? `In trash since ${new Date(value as string).toLocaleString()}` : 'Not in trash';
+  if (field === 'dueAt') return value ? new Date(value as string).toLocaleString() : 'No due date';
+  if (field === 'tags') return (value as string[] | undefined)?.join(', ') || 'No tags';
+  if (field === 'recurrence') return value ? describeRecurrence(value as Recurrence) : 'Does not repeat';
+  if (field === 'userId') return value != null ? `User ${value}` : 'Nobody';
+  if (field === 'subtasks') {
+    const subtasks = (value as Subtask[] | undefined) ?? [];
+    if (subtasks.length === 0) return 'No subtasks';
+    return subtasks.map((subtask) => `${subtask.completed ? '☑' : '☐'} ${subtask.title}`).join(', ');
+  }
+  return String(value ?? '');
+};
\ No newline at end of file
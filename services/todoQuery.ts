@@ -0,0 +1,305 @@
+// Todo list query options and the client-side implementation used offline
+// and against backends that ignore server-side query params
+import type { Todo, TodoPriority } from './todoService';
+import { parseSearchQuery, SearchComparator, SearchTerm } from './searchQuery';
+import { keyFromNumber } from './fractionalIndex';
+
+export type TodoStatusFilter =
+  | 'all'
+  | 'completed'
+  | 'incomplete'
+  | 'pending'
+  | 'overdue'
+  | 'due_today'
+  | 'high_priority';
+
+export type TodoSort =
+  | 'created_desc'
+  | 'created_asc'
+  | 'title_asc'
+  | 'title_desc'
+  | 'status'
+  | 'due_asc'
+  | 'priority_desc'
+  | 'deleted_desc'
+  | 'deleted_asc'
+  | 'manual';
+
+// Pseudo list holding todos that do not belong to any list
+export const INBOX_LIST_ID = 'inbox';
+
+// Filters the API receives as a status param rather than completed=true/false
+const STATUS_PARAM_FILTERS: TodoStatusFilter[] = ['overdue', 'due_today', 'high_priority'];
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 };
+
+export interface TodoListParams {
+  page: number;
+  // 0 for every matching todo on a single page
+  pageSize: number;
+  search?: string;
+  status?: TodoStatusFilter;
+  sortBy?: TodoSort;
+  tag?: string;
+  // A list id, INBOX_LIST_ID, or undefined for todos of every list
+  listId?: string;
+  // Lists known on this device. Lists are not stored with the todos, so with
+  // the Inbox, todos of any other list are shown there too.
+  knownListIds?: string[];
+  // Only todos in the trash, which are otherwise left out
+  trashed?: boolean;
+}
+
+export interface TodoPage {
+  todos: Todo[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// How each sort option maps onto API sort params
+export const SORT_OPTIONS: Record<
+  TodoSort,
+  {
+    field: 'createdAt' | 'todo' | 'completed' | 'dueAt' | 'priority' | 'deletedAt' | 'position';
+    order: 'asc' | 'desc';
+  }
+> = {
+  created_desc: { field: 'createdAt', order: 'desc' },
+  created_asc: { field: 'createdAt', order: 'asc' },
+  title_asc: { field: 'todo', order: 'asc' },
+  title_desc: { field: 'todo', order: 'desc' },
+  status: { field: 'completed', order: 'asc' },
+  due_asc: { field: 'dueAt', order: 'asc' },
+  priority_desc: { field: 'priority', order: 'desc' },
+  deleted_desc: { field: 'deletedAt', order: 'desc' },
+  deleted_asc: { field: 'deletedAt', order: 'asc' },
+  manual: { field: 'position', order: 'asc' },
+};
+
+// Build the query string sent to the /api/todos route, which runs the whole
+// query. Other APIs may ignore the trash, list and tag params, so their full
+// list is fetched and queried with queryTodos instead.
+export function toSearchParams(params: TodoListParams): URLSearchParams {
+  const query = new URLSearchParams({
+    skip: String((params.page - 1) * params.pageSize),
+    limit: String(params.pageSize),
+  });
+
+  if (params.search?.trim()) query.set('q', params.search.trim());
+  if (params.status === 'completed') query.set('completed', 'true');
+  if (params.status === 'incomplete') query.set('completed', 'false');
+  if (params.status && STATUS_PARAM_FILTERS.includes(params.status)) query.set('status', params.status);
+  if (params.tag) query.set('tag', params.tag);
+  if (params.listId) query.set('listId', params.listId);
+  if (params.knownListIds) query.set('lists', params.knownListIds.join(','));
+  if (params.trashed) query.set('trashed', 'true');
+  if (params.sortBy) {
+    const { field, order } = SORT_OPTIONS[params.sortBy];
+    query.set('sortBy', field);
+    query.set('order', order);
+  }
+
+  return query;
+}
+
+// Inverse of toSearchParams, used by the /api/todos route handler. As with
+// dummyjson, limit=0 asks for every todo.
+export function fromSearchParams(query: URLSearchParams): TodoListParams {
+  const limit = query.get('limit') === '0' ? 0 : Math.max(Number(query.get('limit')) || 10, 1);
+  const skip = Math.max(Number(query.get('skip')) || 0, 0);
+  const completed = query.get('completed');
+  const status = STATUS_PARAM_FILTERS.find((filter) => filter === query.get('status'));
+  const sortField = query.get('sortBy');
+  const order = query.get('order') === 'desc' ? 'desc' : 'asc';
+  const sortBy = (Object.keys(SORT_OPTIONS) as TodoSort[]).find(
+    (key) => SORT_OPTIONS[key].field === sortField && SORT_OPTIONS[key].order === order
+  );
+
+  return {
+    page: limit === 0 ? 1 : Math.floor(skip / limit) + 1,
+    pageSize: limit,
+    search: query.get('q') || undefined,
+    status: completed === 'true' ? 'completed' : completed === 'false' ? 'incomplete' : status ?? 'all',
+    sortBy,
+    tag: query.get('tag') || undefined,
+    listId: query.get('listId') || undefined,
+    knownListIds: query.has('lists') ? query.get('lists')!.split(',').filter(Boolean) : undefined,
+    trashed: query.get('trashed') === 'true' || undefined,
+  };
+}
+
+// Offset that turns creation times into descending order keys
+const CREATED_KEY_BASE = 1e14;
+
+// Manual order key. Todos never moved by hand get one derived from their
+// creation time, newest first, so a move only has to write the moved todo.
+export function orderKey(todo: Todo): string {
+  if (todo.position) return todo.position;
+  const created = todo.createdAt ? Date.parse(todo.createdAt) : NaN;
+  return keyFromNumber(CREATED_KEY_BASE - (Number.isNaN(created) ? todo.id : created), 8);
+}
+
+export function isOverdue(todo: Todo, now = new Date()): boolean {
+  return !todo.completed && !!todo.dueAt && new Date(todo.dueAt) < now;
+}
+
+export function isDueToday(todo: Todo, now = new Date()): boolean {
+  return !!todo.dueAt && new Date(todo.dueAt).toDateString() === now.toDateString();
+}
+
+export function isInList(todo: Todo, listId?: string, knownListIds?: string[]): boolean {
+  if (!listId) return true;
+  if (listId !== INBOX_LIST_ID) return todo.listId === listId;
+  return !todo.listId || (!!knownListIds && !knownListIds.includes(todo.listId));
+}
+
+const compare = (op: SearchComparator, difference: number): boolean => {
+  switch (op) {
+    case '=':
+      return difference === 0;
+    case '<':
+      return difference < 0;
+    case '<=':
+      return difference <= 0;
+    case '>':
+      return difference > 0;
+    case '>=':
+      return difference >= 0;
+  }
+};
+
+// Start of the local day a due: value refers to
+const dueDay = (value: string, now: Date): Date => {
+  const offsets: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+  if (value in offsets) {
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offsets[value]);
+    return day;
+  }
+  return new Date(`${value}T00:00:00`);
+};
+
+function matchesTerm(todo: Todo, term: SearchTerm, now: Date): boolean {
+  switch (term.type) {
+    case 'text': {
+      const value = term.value.toLowerCase();
+      return (
+        todo.todo.toLowerCase().includes(value) ||
+        !!todo.description?.toLowerCase().includes(value) ||
+        !!todo.tags?.some((tag) => tag.toLowerCase().includes(value))
+      );
+    }
+    case 'is':
+      switch (term.value) {
+        case 'done':
+          return todo.completed;
+        case 'open':
+          return !todo.completed;
+        case 'overdue':
+          return isOverdue(todo, now);
+        case 'today':
+          return isDueToday(todo, now);
+        case 'starred':
+          return !!todo.starred;
+        case 'recurring':
+          return !!todo.recurrence;
+        case 'pending':
+          return todo.syncStatus === 'pending';
+      }
+      return false;
+    case 'tag':
+      return !!todo.tags?.some((tag) => tag.toLowerCase() === term.value.toLowerCase());
+    case 'priority':
+      return compare(term.op, PRIORITY_RANK[todo.priority ?? 'normal'] - PRIORITY_RANK[term.value]);
+    case 'due': {
+      if (term.value === 'none') return !todo.dueAt;
+      if (!todo.dueAt) return false;
+      const start = dueDay(term.value, now);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 1);
+      const due = new Date(todo.dueAt);
+      // Compare by calendar day: -1 before the day, 0 on it, 1 after it
+      return compare(term.op, due < start ? -1 : due >= end ? 1 : 0);
+    }
+  }
+}
+
+// Every term has to match; negated terms must not
+export function matchesSearch(todo: Todo, terms: SearchTerm[], now = new Date()): boolean {
+  return terms.every((term) => matchesTerm(todo, term, now) !== term.negated);
+}
+
+export function filterTodos(
+  todos: Todo[],
+  params: Pick<TodoListParams, 'search' | 'status' | 'tag' | 'listId' | 'knownListIds' | 'trashed'>
+): Todo[] {
+  const { terms } = parseSearchQuery(params.search);
+  const status = params.status || 'all';
+
+  return todos.filter((todo) => {
+    const matchesQuery = matchesSearch(todo, terms);
+    const matchesStatus =
+      status === 'all' ||
+      (status === 'completed' && todo.completed) ||
+      (status === 'incomplete' && !todo.completed) ||
+      (status === 'pending' && todo.syncStatus === 'pending') ||
+      (status === 'overdue' && isOverdue(todo)) ||
+      (status === 'due_today' && isDueToday(todo)) ||
+      (status === 'high_priority' && (todo.priority === 'high' || todo.priority === 'urgent'));
+    const matchesTag = !params.tag || !!todo.tags?.includes(params.tag);
+    const matchesTrash = !!todo.deletedAt === !!params.trashed;
+    return matchesQuery && matchesStatus && matchesTag && matchesTrash && isInList(todo, params.listId, params.knownListIds);
+  });
+}
+
+export function sortTodos(todos: Todo[], sortBy: TodoSort = 'created_desc'): Todo[] {
+  return [...todos].sort((a, b) => {
+    switch (sortBy) {
+      case 'created_desc':
+        return (b.createdAt || b.id) > (a.createdAt || a.id) ? 1 : -1;
+      case 'created_asc':
+        return (a.createdAt || a.id) > (b.createdAt || b.id) ? 1 : -1;
+      case 'title_asc':
+        return a.todo.localeCompare(b.todo);
+      case 'title_desc':
+        return b.todo.localeCompare(a.todo);
+      case 'status':
+        return a.completed === b.completed ? 0 : a.completed ? 1 : -1;
+      case 'due_asc':
+        // Todos without a due date go last
+        if (!a.dueAt || !b.dueAt) return a.dueAt ? -1 : b.dueAt ? 1 : 0;
+        return a.dueAt.localeCompare(b.dueAt);
+      case 'priority_desc':
+        return PRIORITY_RANK[b.priority ?? 'normal'] - PRIORITY_RANK[a.priority ?? 'normal'];
+      case 'deleted_desc':
+        return (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '');
+      case 'deleted_asc':
+        return (a.deletedAt ?? '').localeCompare(b.deletedAt ?? '');
+      case 'manual': {
+        // Plain string comparison, since keys order by character code. Two
+        // collaborators dropping into the same gap get the same key, so ids
+        // break the tie.
+        const keyA = orderKey(a);
+        const keyB = orderKey(b);
+        return keyA === keyB ? a.id - b.id : keyA < keyB ? -1 : 1;
+      }
+      default:
+        return 0;
+    }
+  });
+}
+
+// Filter, sort and paginate an in-memory list
+export function queryTodos(todos: Todo[], params: TodoListParams): TodoPage {
+  const sorted = sortTodos(filterTodos(todos, params), params.sortBy);
+  const start = (params.page - 1) * params.pageSize;
+
+  return {
+    todos: params.pageSize === 0 ? sorted : sorted.slice(start, start + params.pageSize),
+    total: sorted.length,
+    page: params.page,
+    pageSize: params.pageSize,
+  };
+}
\ No newline at end of file
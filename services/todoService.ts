@@ -0,0 +1,206 @@
+// Todo Service: routes todo requests to the first available backend
+// (api.oluwasetemi.dev, then dummyjson.com, then the local store)
+import type { z } from 'zod';
+import {
+  recurrenceSchema,
+  reminderSchema,
+  subtaskSchema,
+  todoPrioritySchema,
+  todoSchema,
+  todoStatusSchema,
+} from './schemas';
+import { TodoListParams, TodoPage } from './todoQuery';
+import { BackendId, TodoBackend, TodoBackendError } from './backends/types';
+import { CircuitBreaker, CircuitState } from './backends/circuitBreaker';
+import { oluwasetemiBackend, dummyjsonBackend } from './backends/httpBackend';
+import { localBackend } from './backends/localBackend';
+import { listService } from './listService';
+
+export type Todo = z.infer<typeof todoSchema>;
+
+export type TodoPriority = z.infer<typeof todoPrioritySchema>;
+
+export type TodoStatus = z.infer<typeof todoStatusSchema>;
+
+export type Subtask = z.infer<typeof subtaskSchema>;
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+export type Reminder = z.infer<typeof reminderSchema>;
+
+export interface NewTodo {
+  todo: string;
+  completed: boolean;
+  userId: number | string;
+  description?: string;
+  dueAt?: string | null;
+  priority?: TodoPriority;
+  status?: TodoStatus;
+  tags?: string[];
+  subtasks?: Subtask[];
+  completeWithSubtasks?: boolean;
+  recurrence?: Recurrence | null;
+  reminders?: Reminder[];
+  listId?: string | null;
+  starred?: boolean;
+  position?: string | null;
+}
+
+export type TodoChanges = Partial<Omit<Todo, 'id'>>;
+
+export interface TodoRequestOptions {
+  // Skip backends that do not keep writes, e.g. when replaying the offline queue
+  persistentOnly?: boolean;
+}
+
+// Writes skip read-only backends, so a change made while the primary is down
+// lands in the local store and is queued rather than being dropped
+interface RunOptions extends TodoRequestOptions {
+  write?: boolean;
+}
+
+export interface BackendStatus {
+  id: BackendId;
+  label: string;
+  persistent: boolean;
+  state: CircuitState;
+}
+
+export interface TodoServiceStatus {
+  active: BackendStatus;
+  backends: BackendStatus[];
+}
+
+class TodoService {
+  private backends: TodoBackend[] = [oluwasetemiBackend, dummyjsonBackend, localBackend];
+  private breakers = new Map<BackendId, CircuitBreaker>(
+    this.backends.map((backend) => [backend.id, new CircuitBreaker()])
+  );
+  private activeId: BackendId = this.backends[0].id;
+  private status: TodoServiceStatus = this.buildStatus();
+  private listeners = new Set<() => void>();
+
+  // Run an operation against each backend in priority order, skipping open
+  // circuits. Only unavailability moves on to the next backend; client errors
+  // and malformed responses are returned to the caller as-is.
+  private async run<T>(
+    operation: (backend: TodoBackend) => Promise<T>,
+    options: RunOptions = {}
+  ): Promise<T> {
+    let lastError: unknown = new Error('No todo backend is available');
+
+    for (const backend of this.backends) {
+      if (options.persistentOnly && !backend.persistent) continue;
+      if (options.write && backend.readOnly) continue;
+
+      const breaker = this.breakers.get(backend.id)!;
+      if (!breaker.canRequest()) continue;
+
+      try {
+        const result = await operation(backend);
+        breaker.recordSuccess();
+        this.setActive(backend.id);
+        return result;
+      } catch (error) {
+        if (!(error instanceof TodoBackendError) || !error.isUnavailable) throw error;
+
+        console.warn(`Todo backend ${backend.label} failed, trying the next one:`, error);
+        breaker.recordFailure();
+        this.notify();
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Fetch one page of todos
+  async list(params: TodoListParams): Promise<TodoPage> {
+    const scoped = await listService.scope(params);
+    return this.run((backend) => backend.list(scoped));
+  }
+
+  // Count all todos and completed todos for the stats cards, optionally
+  // limited to one list
+  async stats(listId?: string): Promise<{ total: number; completed: number }> {
+    const [all, completed] = await Promise.all([
+      this.list({ page: 1, pageSize: 1, status: 'all', listId }),
+      this.list({ page: 1, pageSize: 1, status: 'completed', listId }),
+    ]);
+    return { total: all.total, completed: completed.total };
+  }
+
+  // Fetch a single todo
+  async get(id: number, options?: TodoRequestOptions): Promise<Todo> {
+    return this.run((backend) => backend.get(id), options);
+  }
+
+  // Create a new todo
+  async create(newTodo: NewTodo, options?: TodoRequestOptions): Promise<Todo> {
+    return this.run((backend) => backend.create(newTodo), { ...options, write: true });
+  }
+
+  // Update an existing todo with the given changes
+  async update(id: number, changes: TodoChanges, options?: TodoRequestOptions): Promise<Todo> {
+    return this.run((backend) => backend.update(id, changes), { ...options, write: true });
+  }
+
+  // Delete a todo, resolving with its id
+  async delete(id: number, options?: TodoRequestOptions): Promise<number> {
+    return this.run((backend) => backend.delete(id), { ...options, write: true });
+  }
+
+  // Probe every backend, closing the circuits of healthy ones and opening the
+  // rest, then switch to the first backend that is up
+  async checkHealth(): Promise<TodoServiceStatus> {
+    const results = await Promise.all(this.backends.map((backend) => backend.checkHealth()));
+
+    results.forEach((healthy, index) => {
+      const breaker = this.breakers.get(this.backends[index].id)!;
+      if (healthy) breaker.recordSuccess();
+      else breaker.trip();
+    });
+
+    const available = this.backends.find((backend) => this.breakers.get(backend.id)!.canRequest());
+    this.setActive(available?.id ?? this.activeId);
+    this.notify();
+    return this.status;
+  }
+
+  // Backend currently serving requests, plus the circuit state of each
+  getStatus(): TodoServiceStatus {
+    return this.status;
+  }
+
+  // Listen for backend switches and circuit changes
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setActive(id: BackendId): void {
+    if (id === this.activeId) return;
+    this.activeId = id;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.status = this.buildStatus();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private buildStatus(): TodoServiceStatus {
+    const backends = this.backends.map((backend) => ({
+      id: backend.id,
+      label: backend.label,
+      persistent: backend.persistent,
+      state: this.breakers.get(backend.id)!.getState(),
+    }));
+    return { active: backends.find((backend) => backend.id === this.activeId)!, backends };
+  }
+}
+
+export const todoService = new TodoService();
+export default TodoService;
\ No newline at end of file
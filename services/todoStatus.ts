@@ -0,0 +1,32 @@
+// Workflow status shown as board columns. `completed` stays authoritative for
+// whether a todo is done, so APIs and clients that only know the boolean keep
+// working and todos without a status fall back on it.
+import type { Todo, TodoChanges, TodoStatus } from './todoService';
+
+export const STATUS_LABELS: Record<TodoStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  blocked: 'Blocked',
+  done: 'Done',
+};
+
+export const STATUS_ICONS: Record<TodoStatus, string> = {
+  todo: '📝',
+  in_progress: '🚧',
+  blocked: '⛔',
+  done: '✅',
+};
+
+export function todoStatus(todo: Pick<Todo, 'status' | 'completed'>): TodoStatus {
+  if (todo.completed) return 'done';
+  return todo.status && todo.status !== 'done' ? todo.status : 'todo';
+}
+
+// Keep status and completed in step: moving to Done completes the todo and
+// moving out of it reopens it, while completing or reopening moves the todo
+// to Done or back to To do
+export function withStatus(todo: Todo, changes: TodoChanges): TodoChanges {
+  if (changes.status) return { ...changes, completed: changes.status === 'done' };
+  if (changes.completed === undefined || changes.completed === todo.completed) return changes;
+  return { ...changes, status: changes.completed ? 'done' : 'todo' };
+}
\ No newline at end of file
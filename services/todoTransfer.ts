@@ -0,0 +1,387 @@
+// Import and export of todos as JSON, CSV and Markdown checklists. JSON keeps
+// every field; CSV and Markdown keep what their formats can hold. Imported
+// todos get new ids and timestamps, and ones exported from the trash come
+// back as active todos.
+import { z } from 'zod';
+import { newTodoSchema, TODO_STATUSES } from './schemas';
+import type { NewTodo, Subtask, Todo } from './todoService';
+import type { TodoListRecord } from './db';
+import { createSubtask } from './subtasks';
+import { DEFAULT_DUE_HOUR } from './calendar';
+import { dateKey } from './recurrence';
+import { STATUS_LABELS } from './todoStatus';
+
+export type TransferFormat = 'json' | 'csv' | 'markdown';
+
+export const TRANSFER_FORMATS: Record<TransferFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON (every field)', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown checklist', extension: 'md', mimeType: 'text/markdown' },
+};
+
+const EXPORT_VERSION = 1;
+
+// Fields a CSV column can be mapped onto
+export const CSV_FIELDS = [
+  'todo',
+  'completed',
+  'description',
+  'dueAt',
+  'priority',
+  'status',
+  'tags',
+  'list',
+  'starred',
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+// Column index per field; unmapped fields are left at their defaults
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  todo: 'Title',
+  completed: 'Completed',
+  description: 'Description',
+  dueAt: 'Due',
+  priority: 'Priority',
+  status: 'Board column',
+  tags: 'Tags',
+  list: 'List',
+  starred: 'Starred',
+};
+
+// Lowercase header names recognised when guessing the mapping
+const CSV_ALIASES: Record<CsvField, string[]> = {
+  todo: ['todo', 'title', 'task', 'name', 'subject'],
+  completed: ['completed', 'done', 'complete', 'finished'],
+  description: ['description', 'notes', 'note', 'details'],
+  dueAt: ['dueat', 'due', 'due date', 'deadline', 'date'],
+  priority: ['priority'],
+  status: ['status', 'column', 'state'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  list: ['list', 'listid', 'project', 'folder'],
+  starred: ['starred', 'star', 'favorite', 'flagged'],
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'done', 'completed'];
+
+// "- [x] Title", indented for subtasks
+const CHECKLIST_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const MARKDOWN_TAG = /(^|\s)#([A-Za-z][\w-]*)/g;
+const MARKDOWN_DUE = /\s*📅\s*(\d{4}-\d{2}-\d{2})/;
+
+export interface ImportContext {
+  lists: TodoListRecord[];
+  // Where todos without a (known) list go
+  listId?: string | null;
+  // Owner of the imported todos, in place of the one in the file
+  userId?: number | string;
+}
+
+export interface ImportResult {
+  todos: NewTodo[];
+  // One message per item that could not be read
+  errors: string[];
+}
+
+export interface ImportCandidate {
+  todo: NewTodo;
+  duplicate: boolean;
+}
+
+// Export
+
+// Sync bookkeeping only means something in this browser. List ids differ
+// between installations, so the list name goes along for the import.
+const exportable = ({ syncStatus, lastModified, ...todo }: Todo, lists: TodoListRecord[]) => ({
+  ...todo,
+  list: lists.find((list) => list.id === todo.listId)?.name,
+});
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string): string => {
+  const value = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+function toCsv(todos: Todo[], lists: TodoListRecord[]): string {
+  const rows = todos.map((todo) =>
+    [
+      todo.todo,
+      String(todo.completed),
+      todo.description ?? '',
+      todo.dueAt ?? '',
+      todo.priority ?? '',
+      todo.status ?? '',
+      (todo.tags ?? []).join('; '),
+      lists.find((list) => list.id === todo.listId)?.name ?? '',
+      String(!!todo.starred),
+    ].map(csvCell)
+  );
+  return [[...CSV_FIELDS], ...rows].map((row) => row.join(',')).join('\r\n');
+}
+
+function toMarkdown(todos: Todo[]): string {
+  const item = (completed: boolean, text: string) => `- [${completed ? 'x' : ' '}] ${text}`;
+  return todos
+    .flatMap((todo) => {
+      const tags = (todo.tags ?? []).map((tag) => ` #${tag.replace(/\s+/g, '-')}`).join('');
+      const due = todo.dueAt ? ` 📅 ${dateKey(new Date(todo.dueAt))}` : '';
+      return [
+        item(todo.completed, `${todo.todo}${tags}${due}`),
+        ...(todo.subtasks ?? []).map((subtask) => `  ${item(subtask.completed, subtask.title)}`),
+      ];
+    })
+    .join('\n');
+}
+
+export function exportTodos(todos: Todo[], format: TransferFormat, lists: TodoListRecord[]): string {
+  if (format === 'csv') return toCsv(todos, lists);
+  if (format === 'markdown') return toMarkdown(todos);
+  return JSON.stringify(
+    { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), todos: todos.map((todo) => exportable(todo, lists)) },
+    null,
+    2
+  );
+}
+
+export function exportFilename(format: TransferFormat, date = new Date()): string {
+  return `todos-${dateKey(date)}.${TRANSFER_FORMATS[format].extension}`;
+}
+
+// Import
+
+export function formatFromFilename(filename: string): TransferFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'md' || extension === 'markdown' || extension === 'txt') return 'markdown';
+  return null;
+}
+
+// RFC 4180 rows: quoted cells may hold commas, quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+
+  // Skip blank lines, including the one a trailing newline leaves
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  headers.forEach((header, index) => {
+    const name = header.trim().toLowerCase();
+    const field = CSV_FIELDS.find((candidate) => CSV_ALIASES[candidate].includes(name));
+    if (field && mapping[field] === undefined) mapping[field] = index;
+  });
+  return mapping;
+}
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0];
+  return `${issue.path.join('.') || 'todo'}: ${issue.message}`;
+};
+
+// Date-only values are due at the usual hour on that local day
+function parseDue(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day, DEFAULT_DUE_HOUR).toISOString();
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+const parseStatus = (value: string) =>
+  TODO_STATUSES.find(
+    (status) =>
+      status === value.toLowerCase().replace(/[\s-]+/g, '_') ||
+      STATUS_LABELS[status].toLowerCase() === value.toLowerCase()
+  ) ?? value;
+
+// The id of the first known list among ids and names, or the context's list
+function resolveList(values: (string | null | undefined)[], context: ImportContext): string | null {
+  for (const value of values) {
+    if (!value) continue;
+    const list = context.lists.find(
+      (candidate) => candidate.id === value || candidate.name.toLowerCase() === value.toLowerCase()
+    );
+    if (list) return list.id;
+  }
+  return context.listId ?? null;
+}
+
+function readJson(text: string, context: ImportContext): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { todos: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const items = Array.isArray(data) ? data : (data as { todos?: unknown })?.todos;
+  if (!Array.isArray(items)) return { todos: [], errors: ['Expected a list of todos'] };
+
+  const result: ImportResult = { todos: [], errors: [] };
+  items.forEach((item, index) => {
+    const parsed = newTodoSchema.safeParse(item);
+    if (!parsed.success) {
+      result.errors.push(`Item ${index + 1}: ${describeIssue(parsed.error)}`);
+      return;
+    }
+    const listName = (item as { list?: unknown })?.list;
+    result.todos.push({
+      ...parsed.data,
+      userId: context.userId ?? parsed.data.userId,
+      listId: resolveList([parsed.data.listId, typeof listName === 'string' ? listName : null], context),
+    });
+  });
+  return result;
+}
+
+function readCsv(text: string, context: ImportContext, mapping?: CsvMapping): ImportResult {
+  const [headers = [], ...rows] = parseCsv(text);
+  const columns = mapping ?? guessCsvMapping(headers);
+  if (columns.todo === undefined) return { todos: [], errors: ['Choose the column that holds the title'] };
+
+  const result: ImportResult = { todos: [], errors: [] };
+  rows.forEach((row, index) => {
+    const cell = (field: CsvField) => {
+      const column = columns[field];
+      // Undo the apostrophe export puts in front of formula-like cells
+      return column === undefined ? '' : (row[column] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+    };
+    // Header row is row 1
+    const rowNumber = index + 2;
+
+    const due = cell('dueAt');
+    const dueAt = due ? parseDue(due) : undefined;
+    if (due && !dueAt) {
+      result.errors.push(`Row ${rowNumber}: dueAt: "${due}" is not a date`);
+      return;
+    }
+
+    const parsed = newTodoSchema.safeParse({
+      todo: cell('todo'),
+      completed: TRUE_VALUES.includes(cell('completed').toLowerCase()),
+      description: cell('description') || undefined,
+      dueAt,
+      priority: cell('priority').toLowerCase() || undefined,
+      status: cell('status') ? parseStatus(cell('status')) : undefined,
+      tags: cell('tags')
+        ? cell('tags')
+            .split(/[;,]/)
+            .map((tag) => tag.trim().replace(/^#/, ''))
+            .filter(Boolean)
+        : undefined,
+      starred: TRUE_VALUES.includes(cell('starred').toLowerCase()) || undefined,
+    });
+    if (!parsed.success) {
+      result.errors.push(`Row ${rowNumber}: ${describeIssue(parsed.error)}`);
+      return;
+    }
+    result.todos.push({
+      ...parsed.data,
+      userId: context.userId ?? parsed.data.userId,
+      listId: resolveList([cell('list')], context),
+    });
+  });
+  return result;
+}
+
+function readMarkdown(text: string, context: ImportContext): ImportResult {
+  const result: ImportResult = { todos: [], errors: [] };
+  let parent: NewTodo | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = CHECKLIST_ITEM.exec(line);
+    if (!match) continue;
+    const [, indent, mark, content] = match;
+    const completed = mark !== ' ';
+
+    // Indented items belong to the item above as subtasks
+    if (indent.length > 0 && parent) {
+      const subtask: Subtask = { ...createSubtask(content.trim()), completed };
+      parent.subtasks = [...(parent.subtasks ?? []), subtask];
+      continue;
+    }
+
+    const due = MARKDOWN_DUE.exec(content);
+    const tags = Array.from(content.matchAll(MARKDOWN_TAG), (tag) => tag[2]);
+    const title = content.replace(MARKDOWN_DUE, '').replace(MARKDOWN_TAG, '$1').replace(/\s+/g, ' ').trim();
+    if (!title) continue;
+
+    parent = {
+      todo: title,
+      completed,
+      userId: context.userId ?? 1,
+      dueAt: due ? parseDue(due[1]) : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      listId: context.listId ?? null,
+    };
+    result.todos.push(parent);
+  }
+
+  if (result.todos.length === 0) result.errors.push('No "- [ ]" checklist items found');
+  return result;
+}
+
+// Read a file's todos; CSV files use `mapping` or a mapping guessed from the header
+export function readImport(
+  text: string,
+  format: TransferFormat,
+  context: ImportContext,
+  mapping?: CsvMapping
+): ImportResult {
+  if (format === 'csv') return readCsv(text, context, mapping);
+  if (format === 'markdown') return readMarkdown(text, context);
+  return readJson(text, context);
+}
+
+// Same title, ignoring case and spacing, due on the same day
+const duplicateKey = (todo: Pick<Todo, 'todo' | 'dueAt'>) =>
+  `${todo.todo.trim().toLowerCase().replace(/\s+/g, ' ')}|${todo.dueAt ? dateKey(new Date(todo.dueAt)) : ''}`;
+
+// Flag todos that already exist, or that appear earlier in the same file
+export function markDuplicates(todos: NewTodo[], existing: Todo[]): ImportCandidate[] {
+  const seen = new Set(existing.filter((todo) => !todo.deletedAt).map(duplicateKey));
+  return todos.map((todo) => {
+    const key = duplicateKey(todo);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { todo, duplicate };
+  });
+}
\ No newline at end of file
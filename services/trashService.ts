@@ -0,0 +1,89 @@
+// Trash Service: how long deleted todos are kept and purging the ones that
+// have been in the trash longer than that. The retention period is a setting
+// of this device, so it only applies to todos trashed here.
+import { db } from './db';
+import { todoService, Todo } from './todoService';
+
+const RETENTION_KEY = 'trash-retention-days';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS) || 30;
+
+export const TRASH_RETENTION_OPTIONS = Array.from(new Set([7, 14, 30, 90, DEFAULT_TRASH_RETENTION_DAYS])).sort(
+  (a, b) => a - b
+);
+
+class TrashService {
+  // Days a trashed todo is kept, as chosen on this device
+  getRetentionDays(): number {
+    if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+    return Number(localStorage.getItem(RETENTION_KEY)) || DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  setRetentionDays(days: number): void {
+    localStorage.setItem(RETENTION_KEY, String(days));
+  }
+
+  // When a trashed todo is due to be deleted for good
+  purgeAt(todo: Todo, retentionDays = this.getRetentionDays()): Date | null {
+    if (!todo.deletedAt) return null;
+    return new Date(new Date(todo.deletedAt).getTime() + retentionDays * DAY_MS);
+  }
+
+  isExpired(todo: Todo, retentionDays = this.getRetentionDays(), now = new Date()): boolean {
+    const purgeAt = this.purgeAt(todo, retentionDays);
+    return !!purgeAt && purgeAt <= now;
+  }
+
+  // Whole days left before a trashed todo is purged, rounded up
+  daysUntilPurge(todo: Todo, retentionDays = this.getRetentionDays(), now = new Date()): number {
+    const purgeAt = this.purgeAt(todo, retentionDays);
+    return purgeAt ? Math.max(0, Math.ceil((purgeAt.getTime() - now.getTime()) / DAY_MS)) : 0;
+  }
+
+  // Remember that a todo was trashed on this device
+  async markTrashed(todo: Todo): Promise<void> {
+    if (todo.deletedAt) await db.trashedHere.put({ todoId: todo.id, deletedAt: todo.deletedAt });
+  }
+
+  // Forget a todo that was restored or deleted for good
+  async forget(todoId: number): Promise<void> {
+    await db.trashedHere.delete(todoId);
+  }
+
+  // deletedAt of each todo trashed on this device, by todo id
+  async trashedHere(): Promise<Map<number, string>> {
+    const records = await db.trashedHere.toArray();
+    return new Map(records.map((record) => [record.todoId, record.deletedAt]));
+  }
+
+  // Whether this device's retention period applies to a trashed todo
+  isPurgedHere(todo: Todo, trashedHere: Map<number, string>): boolean {
+    return !!todo.deletedAt && trashedHere.get(todo.id) === todo.deletedAt;
+  }
+
+  // Permanently delete every todo trashed on this device that is past the
+  // retention period, along with expired copies only the local cache still
+  // holds. Resolves with the number of todos deleted from the API.
+  async purgeExpired(now = new Date()): Promise<number> {
+    const retentionDays = this.getRetentionDays();
+    const trashedHere = await this.trashedHere();
+    if (trashedHere.size === 0) return 0;
+
+    const { todos } = await todoService.list({ page: 1, pageSize: 0, trashed: true, sortBy: 'deleted_asc' });
+    const isDue = (todo: Todo) => this.isPurgedHere(todo, trashedHere) && this.isExpired(todo, retentionDays, now);
+
+    const expired = todos.filter(isDue);
+    for (const todo of expired) {
+      await todoService.delete(todo.id);
+      await db.removeTodo(todo.id);
+      await this.forget(todo.id);
+    }
+
+    await db.todos.filter((todo) => todo.syncStatus !== 'pending' && isDue(todo)).delete();
+    return expired.length;
+  }
+}
+
+export const trashService = new TrashService();
+export default TrashService;
\ No newline at end of file